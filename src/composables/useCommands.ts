@@ -0,0 +1,194 @@
+import { useSettingsStore } from '@/stores/settings'
+import { formatKeyDef } from '@/utils/keyboardShortcuts'
+import { computed, getCurrentScope, onScopeDispose, shallowReactive } from 'vue'
+import { type KeyBinding, type KeyDef, remapBindings } from './useKeyboard'
+
+/**
+ * Categories the commands are grouped by, in the order they are listed.
+ */
+export const commandCategories = [
+  'Playback',
+  'Navigation',
+  'Seeking',
+  'Bookmarks',
+  'Loop',
+  'Volume',
+  'Playback Speed',
+  'Search',
+  'Appearance',
+  'Help',
+] as const
+
+/**
+ * Category of a command in the shortcuts dialog.
+ */
+export type CommandCategory = (typeof commandCategories)[number]
+
+/**
+ * An action the user can trigger, with its default keyboard shortcut.
+ */
+export type Command = {
+  /** Stable identifier, also used to store keys assigned by the user. */
+  id: string
+  /** Name shown in the shortcuts dialog and in tooltips. */
+  label: string
+  /** Category the command is listed under. */
+  category: CommandCategory
+  /** Default keys, empty if the command has no shortcut. */
+  keys: KeyDef[]
+  /** Labels of the default keys, if they are not shown one by one, e.g. "1–9". */
+  keyLabels?: string[]
+  /**
+   * Runs the command. Receives the key event if triggered by a shortcut,
+   * and the number typed in a key sequence with `digits`.
+   */
+  handler: (e?: KeyboardEvent, number?: number) => void | boolean
+  /** Additional guard condition that must be true for the command to run. */
+  when?: () => boolean
+  /** Priority for resolving conflicts between shortcuts (higher priority wins). */
+  priority?: number
+  /** Whether the shortcut also triggers while typing in an editable element. */
+  editable?: boolean
+  /** Whether the user can assign other keys, true by default. */
+  remappable?: boolean
+  /** Whether the command is listed in the command palette, true by default. */
+  palette?: boolean
+}
+
+/**
+ * A category with its commands, in registration order.
+ */
+export type CommandGroup = {
+  category: CommandCategory
+  commands: Command[]
+}
+
+// Singleton registry shared across all consumers, in registration order
+const registry = shallowReactive(new Map<string, Command>())
+
+/**
+ * Adds a command to the registry, replacing a command with the same id.
+ *
+ * @param command - The command to add.
+ *
+ * @returns Function that removes the command again.
+ */
+export function registerCommand(command: Command): () => void {
+  registry.set(command.id, command)
+  return () => {
+    if (registry.get(command.id) === command) {
+      registry.delete(command.id)
+    }
+  }
+}
+
+/**
+ * Registers commands while the calling component (or effect scope) is active,
+ * e.g. commands that only make sense while a panel is shown.
+ *
+ * @param commands - The command(s) to register.
+ */
+export function useCommand(commands: Command | Command[]) {
+  const unregister = (Array.isArray(commands) ? commands : [commands]).map(registerCommand)
+  if (getCurrentScope()) {
+    onScopeDispose(() => unregister.forEach(fn => fn()))
+  }
+}
+
+/**
+ * Creates the key binding that triggers a command.
+ *
+ * @param command - The command.
+ */
+function toBinding(command: Command): KeyBinding {
+  return {
+    id: command.id,
+    keys: command.keys,
+    handler: command.handler,
+    when: command.when,
+    description: command.label,
+    priority: command.priority,
+    editable: command.editable,
+  }
+}
+
+/**
+ * Composable for reading the registered commands with the keys assigned by the user.
+ *
+ * @returns The commands, grouped commands, key bindings and lookup helpers.
+ *
+ * @example
+ * ```typescript
+ * const { findCommand, keyLabelsOf } = useCommands()
+ * const command = findCommand('play-pause')
+ * // keyLabelsOf(command) = ['Space', 'K']
+ * ```
+ */
+export function useCommands() {
+  const settings = useSettingsStore()
+
+  /** All registered commands. */
+  const commands = computed(() => [...registry.values()])
+
+  /** Commands grouped by category, empty categories are left out. */
+  const categories = computed<CommandGroup[]>(() =>
+    commandCategories
+      .map(category => ({ category, commands: commands.value.filter(c => c.category === category) }))
+      .filter(group => group.commands.length > 0)
+  )
+
+  /**
+   * Creates the key bindings of all commands.
+   *
+   * @param overrides - Keys per command id replacing the default keys.
+   */
+  function bindingsFor(overrides: Record<string, KeyDef[]>): KeyBinding[] {
+    return remapBindings(commands.value.map(toBinding), overrides)
+  }
+
+  /** Key bindings of all commands with the keys assigned by the user. */
+  const bindings = computed(() => bindingsFor(settings.shortcuts))
+
+  /**
+   * Looks up a command by id or label (case-insensitive).
+   *
+   * @param name - The id or label.
+   */
+  function findCommand(name: string): Command | undefined {
+    const normalized = name.toLowerCase().trim()
+    return registry.get(normalized)
+      ?? commands.value.find(command => command.label.toLowerCase() === normalized)
+  }
+
+  /**
+   * Keys that trigger a command, those assigned by the user or the default keys.
+   *
+   * @param command - The command.
+   */
+  function keysOf(command: Command): KeyDef[] {
+    return settings.shortcuts[command.id] ?? command.keys
+  }
+
+  /**
+   * Labels of the keys that trigger a command, e.g. "Ctrl + K".
+   *
+   * @param command - The command.
+   */
+  function keyLabelsOf(command: Command): string[] {
+    const assigned = settings.shortcuts[command.id]
+    if (assigned) {
+      return assigned.map(formatKeyDef)
+    }
+    return command.keyLabels ?? command.keys.map(formatKeyDef)
+  }
+
+  return {
+    commands,
+    categories,
+    bindings,
+    bindingsFor,
+    findCommand,
+    keysOf,
+    keyLabelsOf,
+  }
+}
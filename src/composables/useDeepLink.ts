@@ -0,0 +1,92 @@
+import { usePlayerControls } from '@/composables/usePlayerControls'
+import { useContentStore } from '@/stores/contentStore'
+import { useMediaControlsStore } from '@/stores/mediaControls'
+import { useSettingsStore } from '@/stores/settings'
+import { buildDeepLink, parseDeepLink } from '@/utils/deepLink'
+import { watch } from 'vue'
+
+/**
+ * Composable for deep links to a time, page or search query, see deepLink.ts for the URL format.
+ */
+export function useDeepLink() {
+  const media = useMediaControlsStore()
+  const content = useContentStore()
+  const settings = useSettingsStore()
+  const { selectPage } = usePlayerControls()
+
+  /**
+   * Applies the deep link of a URL. Must be called after the content has been loaded.
+   * The search runs first, so that an explicit page or time takes precedence over its first match,
+   * and a time takes precedence over a page.
+   *
+   * @param url - The URL to read the link from.
+   *
+   * @returns True if the URL contained a deep link.
+   */
+  const applyDeepLink = (url: string = window.location.href): boolean => {
+    const link = parseDeepLink(url)
+
+    if (link.query) {
+      content.search(link.query)
+    }
+    if (link.page !== undefined && link.time === undefined) {
+      // The page count is set by the thumbnail bar, which is not mounted while the sidebar is hidden
+      media.pageCount = content.pageModel.length
+      selectPage(link.page)
+    }
+    if (link.time !== undefined) {
+      media.seekTo(link.time)
+    }
+
+    return link.query !== undefined || link.page !== undefined || link.time !== undefined
+  }
+
+  /**
+   * Returns a link to the current playback position.
+   *
+   * @returns The URL of the current page with the current time as deep link.
+   */
+  const linkAtCurrentTime = (): string => {
+    return buildDeepLink(window.location.href, { time: media.currentTime })
+  }
+
+  /**
+   * Copies a link to the current playback position to the clipboard.
+   *
+   * @returns True if the link was copied.
+   */
+  const copyLinkAtCurrentTime = async (): Promise<boolean> => {
+    try {
+      await navigator.clipboard.writeText(linkAtCurrentTime())
+      return true
+    }
+    catch (error) {
+      console.warn('Failed to copy link to clipboard:', error)
+      return false
+    }
+  }
+
+  /**
+   * Keeps the address bar at the current playback position while the `updateLinkWhilePlaying`
+   * setting is enabled. Uses `history.replaceState`, so no history entries are added.
+   * Should be called after applyDeepLink(), so that the initial link is not overwritten.
+   */
+  const syncUrlWithPlayback = () => {
+    watch(
+      () => settings.updateLinkWhilePlaying ? Math.floor(media.currentTime / 1000) : null,
+      (seconds) => {
+        if (seconds === null || media.playbackState !== 'playing') {
+          return
+        }
+        history.replaceState(history.state, '', linkAtCurrentTime())
+      },
+    )
+  }
+
+  return {
+    applyDeepLink,
+    linkAtCurrentTime,
+    copyLinkAtCurrentTime,
+    syncUrlWithPlayback,
+  }
+}
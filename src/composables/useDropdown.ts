@@ -0,0 +1,63 @@
+import { type Ref, ref, watch } from 'vue'
+import { useKeyboard, useKeyboardScope } from './useKeyboard'
+
+/**
+ * Composable for a DaisyUI dropdown, which is open while the focus is inside it. While open,
+ * the dropdown shadows the player shortcuts, so that e.g. Space doesn't toggle playback
+ * behind the menu, and Escape closes it.
+ *
+ * @param root - Reference to the element with the `dropdown` class.
+ *
+ * @returns Whether the dropdown is open, e.g. to hide the tooltip of its button.
+ *
+ * @example
+ * ```typescript
+ * const dropdownRef = ref<HTMLElement | null>(null)
+ * const { isDropdownOpen } = useDropdown(dropdownRef)
+ * defineExpose({ isDropdownOpen })
+ * ```
+ */
+export function useDropdown(root: Ref<HTMLElement | null>) {
+  const isDropdownOpen = ref(false)
+
+  const onFocusIn = () => {
+    isDropdownOpen.value = true
+  }
+
+  const onFocusOut = (e: FocusEvent) => {
+    // Moving the focus between the button and the menu keeps the dropdown open
+    if (!(e.relatedTarget instanceof Node && root.value?.contains(e.relatedTarget))) {
+      isDropdownOpen.value = false
+    }
+  }
+
+  // The root may be rendered conditionally, e.g. only if there are several options
+  watch(root, (el, previous) => {
+    previous?.removeEventListener('focusin', onFocusIn)
+    previous?.removeEventListener('focusout', onFocusOut)
+    el?.addEventListener('focusin', onFocusIn)
+    el?.addEventListener('focusout', onFocusOut)
+    if (!el) {
+      isDropdownOpen.value = false
+    }
+  }, { immediate: true })
+
+  const { scope } = useKeyboardScope(isDropdownOpen)
+
+  useKeyboard(
+    [
+      {
+        keys: [{ key: 'Escape' }],
+        handler: () => {
+          if (document.activeElement instanceof HTMLElement) {
+            document.activeElement.blur()
+          }
+        },
+        description: 'Close the menu',
+      },
+    ],
+    { scope, ignoreEditable: false },
+  )
+
+  return { isDropdownOpen }
+}
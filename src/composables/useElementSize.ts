@@ -0,0 +1,31 @@
+import { onBeforeUnmount, onMounted, type Ref, ref } from 'vue'
+
+/**
+ * Composable that tracks the rendered size of an element, e.g. to draw in pixel units.
+ *
+ * @param target - Reference to the element, observed once the component is mounted.
+ *
+ * @returns The width and height of the element's content box in pixels.
+ */
+export function useElementSize(target: Ref<Element | null>) {
+  const size = ref({ width: 0, height: 0 })
+  let ro: ResizeObserver | null = null
+
+  onMounted(() => {
+    if (target.value) {
+      ro = new ResizeObserver(([entry]) => {
+        if (entry) {
+          size.value = { width: entry.contentRect.width, height: entry.contentRect.height }
+        }
+      })
+      ro.observe(target.value)
+    }
+  })
+
+  onBeforeUnmount(() => {
+    ro?.disconnect()
+    ro = null
+  })
+
+  return size
+}
@@ -1,4 +1,23 @@
-import { onBeforeUnmount, onMounted, type Ref, ref } from 'vue'
+import { onBeforeUnmount, onMounted, type Ref, ref, toValue, watch, type WatchSource } from 'vue'
+
+/** Time in milliseconds to type the next key of a sequence before it is canceled. */
+const DEFAULT_SEQUENCE_TIMEOUT = 1500
+
+/** Keys that only change other keys and never break a pending sequence. */
+const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'Meta', 'AltGraph', 'CapsLock', 'Dead', 'Unidentified']
+
+/** Elements that can receive the focus with Tab. */
+const FOCUSABLE_SELECTOR = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])',
+].join(', ')
+
+// Scopes of the open dialogs, menus and palettes, the last one receives the key events
+const scopeStack: symbol[] = []
 
 /**
  * Defines a keyboard key combination for binding.
@@ -20,22 +39,45 @@ export type KeyDef = {
   repeat?: boolean | 'allow' // false=block repeats, true=only repeats, 'allow'=both
   /** Use the primary modifier (Ctrl on Win/Linux, Meta on macOS). */
   primary?: boolean // Ctrl on Win/Linux, Meta on macOS
+  /** Keys to press one after another before this key, e.g. `[{ key: 'g' }]` for "g g". */
+  prefix?: KeyDef[]
+  /** Whether a number can be typed between the prefix and this key, e.g. "g 1 2 Enter". It is passed to the handler. */
+  digits?: boolean
 }
 
 /**
  * Defines a keyboard shortcut binding with handler and optional conditions.
  */
 export type KeyBinding = {
+  /** Stable identifier, used to store keys assigned by the user. */
+  id?: string
   /** Key definition(s) that trigger this binding. */
   keys: KeyDef | KeyDef[]
-  /** Handler function called when a key combination matches. Return false to skip preventDefault. */
-  handler: (e: KeyboardEvent) => void | boolean // return false to skip preventDefault
+  /**
+   * Handler function called when a key combination matches. Return false to skip preventDefault.
+   * Receives the number typed in a sequence with `digits`.
+   */
+  handler: (e: KeyboardEvent, number?: number) => void | boolean // return false to skip preventDefault
   /** Additional guard condition that must be true for binding to execute. */
   when?: () => boolean // additional guard
   /** Human-readable description of what this binding does. */
   description?: string
   /** Priority for resolving conflicts (higher priority wins). */
   priority?: number
+  /** Whether the binding also triggers while typing in an editable element, despite `ignoreEditable`. */
+  editable?: boolean
+}
+
+/**
+ * Two bindings that are triggered by the same key combination.
+ */
+export type KeyConflict = {
+  /** The key combination of the binding that is shadowed. */
+  key: KeyDef
+  /** The binding that handles the key, as it is checked first. */
+  winner: KeyBinding
+  /** The binding that never sees the key while the winner applies. */
+  shadowed: KeyBinding
 }
 
 /**
@@ -50,6 +92,26 @@ export type UseKeyboardOptions = {
   onlyWhenTargetInside?: Ref<HTMLElement | null> | HTMLElement | null
   /** Use the capture phase for event listener. */
   capture?: boolean
+  /** Time in milliseconds to type the next key of a sequence before it is canceled. */
+  sequenceTimeout?: number
+  /**
+   * Scope the bindings belong to, see useKeyboardScope(). Bindings without scope are global.
+   * Only the bindings of the most recently opened scope are active, those of closed scopes never.
+   */
+  scope?: symbol
+}
+
+/**
+ * Configuration options for the useKeyboardScope composable.
+ */
+export type UseKeyboardScopeOptions = {
+  /** Element of the dialog, menu or palette. */
+  root?: Ref<HTMLElement | null>
+  /**
+   * Whether Tab keeps the focus inside the root. The first focusable element is focused
+   * when the scope opens, and the focus moves back to where it was when it closes.
+   */
+  trapFocus?: boolean
 }
 
 /**
@@ -115,6 +177,155 @@ function matchKey(e: KeyboardEvent, def: KeyDef): boolean {
   return true // 'allow' or undefined
 }
 
+/**
+ * How a key event continues a key definition, given the keys of a sequence typed before.
+ * - 'trigger': the key completes the definition
+ * - 'advance': the key is the next key of the prefix
+ * - 'digit': the key is a digit of the number typed after the prefix
+ */
+type SequenceStep = 'trigger' | 'advance' | 'digit'
+
+/**
+ * Checks how a key event continues a key definition.
+ *
+ * @param e - The key event.
+ * @param def - The key definition.
+ * @param typed - Events of the prefix typed before, empty if no sequence is pending.
+ * @param digits - Digits typed after the prefix.
+ *
+ * @returns The step, or null if the key breaks the sequence or doesn't match.
+ */
+function continueSequence(e: KeyboardEvent, def: KeyDef, typed: KeyboardEvent[], digits: string): SequenceStep | null {
+  const prefix = def.prefix ?? []
+  if (typed.length > prefix.length || !typed.every((event, index) => matchKey(event, prefix[index]!))) {
+    return null
+  }
+  if (typed.length < prefix.length) {
+    return digits === '' && matchKey(e, prefix[typed.length]!) ? 'advance' : null
+  }
+  if (def.digits && typed.length > 0 && /^\d$/.test(e.key) && !e.ctrlKey && !e.altKey && !e.metaKey) {
+    return 'digit'
+  }
+  return matchKey(e, def) && (!def.digits || digits !== '') ? 'trigger' : null
+}
+
+/**
+ * Sorts bindings in the order they are checked, by priority and then by position.
+ *
+ * @param bindings - The bindings to sort.
+ *
+ * @returns A new array with the highest priority first.
+ */
+function sortByPriority(bindings: KeyBinding[]): KeyBinding[] {
+  return [...bindings].sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0))
+}
+
+/**
+ * Checks whether a key event could match both key definitions, ignoring their prefixes.
+ *
+ * @param a - The first key definition.
+ * @param b - The second key definition.
+ */
+function stepsOverlap(a: KeyDef, b: KeyDef): boolean {
+  if (a.key && b.key) {
+    if (a.key.toLowerCase() !== b.key.toLowerCase()) {
+      return false
+    }
+  }
+  else if (!a.code || a.code !== b.code) {
+    return false
+  }
+
+  const modifiers = (def: KeyDef) =>
+    def.primary ? { ...def, ctrl: undefined, meta: undefined } : def
+  const ma = modifiers(a)
+  const mb = modifiers(b)
+  return (['ctrl', 'shift', 'alt', 'meta'] as const).every(m =>
+    ma[m] === undefined || mb[m] === undefined || ma[m] === mb[m]
+  )
+}
+
+/**
+ * Checks whether a key event could match both key definitions.
+ * Unspecified modifiers match either state, and the primary modifier matches Ctrl as well as Meta.
+ * A sequence also overlaps with keys (or shorter sequences) it starts with, e.g. "g g" with "g",
+ * since only one of them can handle the first key.
+ *
+ * @param a - The first key definition.
+ * @param b - The second key definition.
+ *
+ * @returns True if some key event triggers both.
+ */
+export function keyDefsOverlap(a: KeyDef, b: KeyDef): boolean {
+  const stepsA = [...(a.prefix ?? []), a]
+  const stepsB = [...(b.prefix ?? []), b]
+  const length = Math.min(stepsA.length, stepsB.length)
+  return stepsA.slice(0, length).every((step, index) => stepsOverlap(step, stepsB[index]!))
+}
+
+/**
+ * Finds key combinations that trigger more than one binding. Of those, only the binding with
+ * the highest priority (or the first one with equal priority) runs, unless its `when` guard fails.
+ *
+ * @param bindings - The bindings to check, as passed to useKeyboard().
+ *
+ * @returns The conflicts, one for each shadowed key definition.
+ */
+export function findKeyConflicts(bindings: KeyBinding[]): KeyConflict[] {
+  const sorted = sortByPriority(bindings)
+  const conflicts: KeyConflict[] = []
+
+  sorted.forEach((binding, index) => {
+    const defs = Array.isArray(binding.keys) ? binding.keys : [binding.keys]
+    for (const key of defs) {
+      const winner = sorted.slice(0, index).find(other =>
+        (Array.isArray(other.keys) ? other.keys : [other.keys]).some(def => keyDefsOverlap(def, key))
+      )
+      if (winner) {
+        conflicts.push({ key, winner, shadowed: binding })
+      }
+    }
+  })
+  return conflicts
+}
+
+/**
+ * Replaces the keys of bindings with keys assigned by the user.
+ * The repeat behavior of the default keys is kept.
+ *
+ * @param bindings - The bindings with their default keys.
+ * @param overrides - Keys per binding id, an empty list removes all keys of the binding.
+ *
+ * @returns New bindings, those without override are returned as they are.
+ */
+export function remapBindings(bindings: KeyBinding[], overrides: Record<string, KeyDef[]>): KeyBinding[] {
+  return bindings.map(binding => {
+    const keys = binding.id ? overrides[binding.id] : undefined
+    if (!keys) {
+      return binding
+    }
+    const repeat = (Array.isArray(binding.keys) ? binding.keys[0] : binding.keys)?.repeat
+    return { ...binding, keys: keys.map(key => (repeat === undefined ? { ...key } : { ...key, repeat })) }
+  })
+}
+
+/**
+ * Creates the key definition matching a key event exactly, e.g. to record a new shortcut.
+ *
+ * @param e - The keyboard event.
+ *
+ * @returns The key with its physical key and all modifier states, or null if only a modifier key was pressed.
+ */
+export function keyDefFromEvent(
+  e: KeyboardEvent,
+): Required<Pick<KeyDef, 'key' | 'ctrl' | 'shift' | 'alt' | 'meta'>> & Pick<KeyDef, 'code'> | null {
+  if (MODIFIER_KEYS.includes(e.key)) {
+    return null
+  }
+  // The physical key relates the key to default keys that are defined by their code only
+  return { key: e.key, code: e.code || undefined, ctrl: e.ctrlKey, shift: e.shiftKey, alt: e.altKey, meta: e.metaKey }
+}
+
 /**
  * Composable for handling keyboard shortcuts and key bindings.
  *
@@ -123,10 +334,15 @@ function matchKey(e: KeyboardEvent, def: KeyDef): boolean {
  * registration/cleanup and provides options for enabling/disabling shortcuts
  * and ignoring input from editable elements.
  *
+ * Keys with a `prefix` form sequences like "g g". While a sequence is pending, keys that continue
+ * it take precedence over single keys; any other key cancels it and is handled as usual, as does a
+ * pause longer than `sequenceTimeout`. Without a pending sequence, the first key of a sequence
+ * competes with single keys by `priority`.
+ *
  * @param bindings - Array of keyboard shortcut definitions with handlers.
  * @param options - Configuration options for keyboard handling behavior.
  *
- * @returns Object containing the enabled ref for controlling keyboard handling.
+ * @returns Object containing the enabled ref for controlling keyboard handling and the keys of the pending sequence.
  *
  * @example
  * ```typescript
@@ -152,38 +368,93 @@ export function useKeyboard(bindings: KeyBinding[], options: UseKeyboardOptions
       ? (options.onlyWhenTargetInside as Ref<HTMLElement | null>)
       : ref(options.onlyWhenTargetInside as HTMLElement | null)
 
+  const sequenceTimeout = options.sequenceTimeout ?? DEFAULT_SEQUENCE_TIMEOUT
+
+  /** Keys of the pending sequence (e.key values), empty if no sequence is pending. */
+  const pendingKeys = ref<string[]>([])
+  // Events of the prefix typed so far, and the digits typed after it
+  let typed: KeyboardEvent[] = []
+  let digits = ''
+  let sequenceTimer: ReturnType<typeof setTimeout> | undefined
+
+  function cancelSequence() {
+    clearTimeout(sequenceTimer)
+    typed = []
+    digits = ''
+    pendingKeys.value = []
+  }
+
+  /**
+   * Runs the first binding the key event triggers or continues.
+   *
+   * @returns True if a binding handled the event.
+   */
+  function dispatch(e: KeyboardEvent, inEditable: boolean): boolean {
+    // sort by priority desc once per event
+    const sorted = sortByPriority(bindings)
+
+    for (const b of sorted) {
+      if ((inEditable && !b.editable) || (b.when && !b.when())) {
+        continue
+      }
+      const defs = Array.isArray(b.keys) ? b.keys : [b.keys]
+      const step = defs.map((d) => continueSequence(e, d, typed, digits)).find(Boolean)
+      if (!step) {
+        continue
+      }
+
+      let result: void | boolean = undefined
+      if (step === 'trigger') {
+        const number = digits
+        cancelSequence()
+        result = number === '' ? b.handler(e) : b.handler(e, Number(number))
+      }
+      else {
+        if (step === 'advance') {
+          typed.push(e)
+        }
+        else {
+          digits += e.key
+        }
+        pendingKeys.value = [...pendingKeys.value, e.key]
+        clearTimeout(sequenceTimer)
+        sequenceTimer = setTimeout(cancelSequence, sequenceTimeout)
+      }
+      if (result !== false) {
+        e.preventDefault()
+        e.stopPropagation()
+      }
+      return true
+    }
+    return false
+  }
+
   const onKeyDown = (e: Event) => {
     if (!enabled.value) {
       return
     }
+    // Only the bindings of the most recently opened scope are active, global ones if none is open
+    if (scopeStack[scopeStack.length - 1] !== options.scope) {
+      return
+    }
     // If scoping is set, only handle when the target is within the scoped root
     if (onlyInsideRef.value && e.target instanceof Node) {
       if (!onlyInsideRef.value.contains(e.target)) {
         return
       }
     }
-    if (ignoreEditable && isEditableTarget(e.target)) {
-      return
-    }
+    const inEditable = ignoreEditable && isEditableTarget(e.target)
 
     const kbdEvent = e as KeyboardEvent
+    const pending = pendingKeys.value.length > 0
+    if (pending && MODIFIER_KEYS.includes(kbdEvent.key)) {
+      return
+    }
 
-    // sort by priority desc once per event
-    const sorted = [...bindings].sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0))
-
-    for (const b of sorted) {
-      if (b.when && !b.when()) {
-        continue
-      }
-      const defs = Array.isArray(b.keys) ? b.keys : [b.keys]
-      if (defs.some((d) => matchKey(kbdEvent, d))) {
-        const result = b.handler(kbdEvent)
-        if (result !== false) {
-          e.preventDefault()
-          e.stopPropagation()
-        }
-        return
-      }
+    if (!dispatch(kbdEvent, inEditable) && pending) {
+      // The key breaks the sequence, handle it on its own
+      cancelSequence()
+      dispatch(kbdEvent, inEditable)
     }
   }
 
@@ -194,8 +465,120 @@ export function useKeyboard(bindings: KeyBinding[], options: UseKeyboardOptions
   onBeforeUnmount(() => {
     const eventTarget = onlyInsideRef.value ?? window
     eventTarget.removeEventListener('keydown', onKeyDown, { capture: options.capture ?? false })
+    cancelSequence()
   })
 
   // Return the scoping ref so the caller can assign its element later
-  return { enabled, onlyWhenTargetInside: onlyInsideRef }
+  return { enabled, onlyWhenTargetInside: onlyInsideRef, pendingKeys }
+}
+
+/**
+ * Finds the elements inside a root that can receive the focus with Tab, in document order.
+ *
+ * @param root - The root element.
+ */
+function focusableElements(root: HTMLElement): HTMLElement[] {
+  return Array.from(root.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR))
+}
+
+/**
+ * Composable for a keyboard scope of a dialog, menu or palette. While it is open, the scope
+ * shadows the global bindings and all scopes opened before it, so that e.g. Space doesn't
+ * toggle playback behind a dialog; closing it restores them. Pass the returned scope to
+ * useKeyboard() for the bindings of the dialog itself.
+ *
+ * @param open - Whether the dialog, menu or palette is open.
+ * @param options - Configuration options, e.g. for trapping the focus.
+ *
+ * @returns The scope to pass to useKeyboard().
+ *
+ * @example
+ * ```typescript
+ * const { scope } = useKeyboardScope(showDialog, { root: dialogRef, trapFocus: true })
+ * useKeyboard([{ keys: { key: 'Escape' }, handler: () => close() }], { scope, ignoreEditable: false })
+ * ```
+ */
+export function useKeyboardScope(open: WatchSource<boolean>, options: UseKeyboardScopeOptions = {}) {
+  const scope = Symbol('keyboard scope')
+  /** Element that had the focus before the scope opened. */
+  let previousFocus: HTMLElement | null = null
+
+  function push() {
+    if (scopeStack.includes(scope)) {
+      return
+    }
+    scopeStack.push(scope)
+    const root = options.root?.value
+    if (options.trapFocus && root) {
+      previousFocus = document.activeElement instanceof HTMLElement ? document.activeElement : null
+      ;(focusableElements(root)[0] ?? root).focus()
+    }
+  }
+
+  function pop() {
+    const index = scopeStack.indexOf(scope)
+    if (index < 0) {
+      return
+    }
+    scopeStack.splice(index, 1)
+    // Move the focus back, unless something outside (e.g. a command run from a palette) took it
+    const root = options.root?.value
+    const focused = document.activeElement
+    if (previousFocus && (!focused || focused === document.body || root?.contains(focused))) {
+      previousFocus.focus()
+    }
+    previousFocus = null
+  }
+
+  /**
+   * Moves the focus to the next or previous focusable element, wrapping around at the ends.
+   *
+   * @param step - 1 for the next element, -1 for the previous one.
+   */
+  function moveFocus(step: number) {
+    const root = options.root?.value
+    if (!root) {
+      return
+    }
+    const elements = focusableElements(root)
+    if (elements.length === 0) {
+      root.focus()
+      return
+    }
+    const index = elements.indexOf(document.activeElement as HTMLElement)
+    const next = index < 0 ? (step > 0 ? 0 : elements.length - 1) : (index + step + elements.length) % elements.length
+    elements[next]!.focus()
+  }
+
+  // After rendering, so that the focus can move into the opened element
+  watch(open, (value) => (value ? push() : pop()), { flush: 'post' })
+
+  // A scope that starts open can only move the focus once its element is mounted
+  onMounted(() => {
+    if (toValue(open)) {
+      push()
+    }
+  })
+
+  if (options.trapFocus) {
+    useKeyboard(
+      [
+        {
+          keys: { key: 'Tab', shift: false },
+          handler: () => moveFocus(1),
+          description: 'Focus next element',
+        },
+        {
+          keys: { key: 'Tab', shift: true },
+          handler: () => moveFocus(-1),
+          description: 'Focus previous element',
+        },
+      ],
+      { scope, ignoreEditable: false },
+    )
+  }
+
+  onBeforeUnmount(pop)
+
+  return { scope }
 }
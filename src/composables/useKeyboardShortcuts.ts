@@ -1,106 +1,234 @@
+import { useBookmarksStore } from '@/stores/bookmarks'
 import { useMediaControlsStore } from '@/stores/mediaControls'
+import { watch } from 'vue'
+import { type Command, useCommand, useCommands } from './useCommands'
 import { useFullscreenControls } from './useFullscreenControls'
 import { type KeyBinding, useKeyboard } from './useKeyboard'
 import { usePlayerControls } from './usePlayerControls'
 
 /**
  * Composable for handling application-wide keyboard shortcuts for video player controls.
+ * Registers the player commands and binds the keys of all registered commands, including
+ * contextual commands registered by components with useCommand().
  *
  * Provides keyboard shortcuts for:
  * - Play/Pause: Space or K
- * - Navigation: Left/Right arrows, Home/End
+ * - Navigation: Left/Right arrows, Home/End or g g / g e, g followed by a page number and Enter
+ * - Seeking: J/L to skip 10 seconds, Shift+Left/Right to skip 5 seconds, 1-9 to jump to 10-90 %
+ * - Frame stepping: , and . while paused
  * - Volume: Up/Down arrows, M for mute
  * - Fullscreen: F
  * - Playback speed: <, >, Shift+<, Shift+>, 0, =
+ * - Bookmarks: B to bookmark the current position
+ * - Loop: [ and ] to set the loop start and end, P to loop the current page, \ to clear the loop
  * - Help: ? to show keyboard shortcuts
  *
- * @note Shortcuts are automatically disabled when typing in input fields, textareas, or contentEditable elements.
+ * Keys assigned by the user in the shortcut editor replace the default keys, see the `shortcuts` setting.
+ *
+ * @note Shortcuts are automatically disabled when typing in input fields, textareas, or contentEditable elements,
+ * unless the command is marked as `editable`.
+ *
+ * @returns The enabled state and the keys of a pending key sequence, e.g. `['g', '1']`.
  */
 export function useKeyboardShortcuts(showShortcutsDialog?: () => void) {
   const mediaStore = useMediaControlsStore()
+  const bookmarks = useBookmarksStore()
   const { toggleFullscreen } = useFullscreenControls()
-  const { selectPrevPage, selectNextPage, selectPage } = usePlayerControls()
+  const { selectPrevPage, selectNextPage, selectPage, toggleLoopCurrentPage } = usePlayerControls()
 
-  // Define all keyboard shortcuts
-  const shortcuts: KeyBinding[] = [
+  // Register the commands of the player with their default keys
+  useCommand([
     // Play/Pause shortcuts
     {
+      id: 'play-pause',
+      category: 'Playback',
       keys: [
         { key: ' ', repeat: false }, // Space bar
-        { key: 'k', repeat: false }, // K key
+        { key: 'k', ctrl: false, meta: false, repeat: false }, // K key, Ctrl/⌘ + K focuses the search field
       ],
       handler: () => {
         mediaStore.togglePlayPause()
       },
-      description: 'Play/Pause',
+      label: 'Play/Pause',
     },
 
     // Navigation shortcuts
     {
-      keys: { key: 'ArrowLeft', repeat: false },
+      id: 'previous-page',
+      category: 'Navigation',
+      keys: [{ key: 'ArrowLeft', shift: false, repeat: false }],
       handler: () => {
         selectPrevPage()
       },
-      description: 'Previous page',
+      label: 'Previous page',
     },
     {
-      keys: { key: 'ArrowRight', repeat: false },
+      id: 'next-page',
+      category: 'Navigation',
+      keys: [{ key: 'ArrowRight', shift: false, repeat: false }],
       handler: () => {
         selectNextPage()
       },
-      description: 'Next page',
+      label: 'Next page',
     },
     {
-      keys: { key: 'Home', repeat: false },
+      id: 'first-page',
+      category: 'Navigation',
+      keys: [
+        { key: 'Home', repeat: false },
+        { key: 'g', prefix: [{ key: 'g', repeat: false }], repeat: false }, // g g
+      ],
       handler: () => {
         selectPage(1)
       },
-      description: 'Jump to first page',
+      label: 'Jump to first page',
     },
     {
-      keys: { key: 'End', repeat: false },
+      id: 'last-page',
+      category: 'Navigation',
+      keys: [
+        { key: 'End', repeat: false },
+        { key: 'e', prefix: [{ key: 'g', repeat: false }], repeat: false }, // g e
+      ],
       handler: () => {
         selectPage(mediaStore.pageCount)
       },
-      description: 'Jump to last page',
+      label: 'Jump to last page',
+    },
+    {
+      id: 'go-to-page',
+      category: 'Navigation',
+      keys: [{ key: 'Enter', prefix: [{ key: 'g', repeat: false }], digits: true }], // g 1 2 Enter
+      handler: (_e, page) => {
+        if (page !== undefined) {
+          selectPage(page)
+        }
+      },
+      label: 'Go to page N',
+      remappable: false, // The typed number selects the page
+      palette: false, // The palette offers the typed page instead
+    },
+
+    // Seek shortcuts
+    {
+      id: 'seek-back-10',
+      category: 'Seeking',
+      keys: [{ key: 'j', repeat: 'allow' }],
+      handler: () => {
+        mediaStore.seekBy(-10000)
+      },
+      label: 'Seek back 10 seconds',
+    },
+    {
+      id: 'seek-forward-10',
+      category: 'Seeking',
+      keys: [{ key: 'l', repeat: 'allow' }],
+      handler: () => {
+        mediaStore.seekBy(10000)
+      },
+      label: 'Seek forward 10 seconds',
+    },
+    {
+      id: 'seek-back-5',
+      category: 'Seeking',
+      keys: [{ key: 'ArrowLeft', shift: true, repeat: 'allow' }],
+      handler: () => {
+        mediaStore.seekBy(-5000)
+      },
+      label: 'Seek back 5 seconds',
+    },
+    {
+      id: 'seek-forward-5',
+      category: 'Seeking',
+      keys: [{ key: 'ArrowRight', shift: true, repeat: 'allow' }],
+      handler: () => {
+        mediaStore.seekBy(5000)
+      },
+      label: 'Seek forward 5 seconds',
+    },
+    {
+      id: 'jump-to-percent',
+      category: 'Seeking',
+      keys: [1, 2, 3, 4, 5, 6, 7, 8, 9].map(digit => ({ key: String(digit), repeat: false })),
+      keyLabels: ['1–9'],
+      handler: (e) => {
+        if (e) {
+          mediaStore.seekToFraction(Number(e.key) / 10)
+        }
+      },
+      label: 'Jump to 10–90 %',
+      remappable: false, // The digit selects the position
+      palette: false, // The palette offers the typed percentage instead
+    },
+
+    // Frame stepping, only while paused
+    {
+      id: 'previous-frame',
+      category: 'Seeking',
+      keys: [{ key: ',', repeat: 'allow' }],
+      handler: () => {
+        mediaStore.stepFrame(-1)
+      },
+      when: () => mediaStore.playbackState !== 'playing',
+      label: 'Previous frame (while paused)',
+    },
+    {
+      id: 'next-frame',
+      category: 'Seeking',
+      keys: [{ key: '.', repeat: 'allow' }],
+      handler: () => {
+        mediaStore.stepFrame(1)
+      },
+      when: () => mediaStore.playbackState !== 'playing',
+      label: 'Next frame (while paused)',
     },
 
     // Volume shortcuts
     {
-      keys: { key: 'ArrowUp', repeat: false },
+      id: 'volume-up',
+      category: 'Volume',
+      keys: [{ key: 'ArrowUp', repeat: false }],
       handler: () => {
         const newVolume = Math.min(100, mediaStore.volume + 5)
         mediaStore.setVolume(newVolume)
       },
-      description: 'Volume up',
+      label: 'Volume up',
     },
     {
-      keys: { key: 'ArrowDown', repeat: false },
+      id: 'volume-down',
+      category: 'Volume',
+      keys: [{ key: 'ArrowDown', repeat: false }],
       handler: () => {
         const newVolume = Math.max(0, mediaStore.volume - 5)
         mediaStore.setVolume(newVolume)
       },
-      description: 'Volume down',
+      label: 'Volume down',
     },
     {
-      keys: { key: 'm', repeat: false },
+      id: 'mute',
+      category: 'Volume',
+      keys: [{ key: 'm', repeat: false }],
       handler: () => {
         mediaStore.toggleMute()
       },
-      description: 'Mute/Unmute',
+      label: 'Mute/Unmute',
     },
 
     // Fullscreen shortcut
     {
-      keys: { key: 'f', repeat: false },
+      id: 'fullscreen',
+      category: 'Playback',
+      keys: [{ key: 'f', repeat: false }],
       handler: () => {
         toggleFullscreen()
       },
-      description: 'Toggle fullscreen',
+      label: 'Toggle fullscreen',
     },
 
     // Playback speed shortcuts
     {
+      id: 'speed-up',
+      category: 'Playback Speed',
       keys: [
         { key: '>', repeat: false },
         { key: '>', shift: true, repeat: false }, // Shift + >
@@ -116,9 +244,11 @@ export function useKeyboardShortcuts(showShortcutsDialog?: () => void) {
         }
         mediaStore.setPlaybackSpeed(speedIncrements[nextIndex] ?? 1) // default to normal speed
       },
-      description: 'Increase playback speed',
+      label: 'Increase playback speed',
     },
     {
+      id: 'speed-down',
+      category: 'Playback Speed',
       keys: [
         { key: '<', repeat: false },
         { key: '<', shift: true, repeat: false }, // Shift + <
@@ -140,9 +270,11 @@ export function useKeyboardShortcuts(showShortcutsDialog?: () => void) {
         }
         mediaStore.setPlaybackSpeed(speedIncrements[prevIndex] ?? 1) // default to normal speed
       },
-      description: 'Decrease playback speed',
+      label: 'Decrease playback speed',
     },
     {
+      id: 'normal-speed',
+      category: 'Playback Speed',
       keys: [
         { key: '0', repeat: false },
         { key: '=', repeat: false },
@@ -150,27 +282,91 @@ export function useKeyboardShortcuts(showShortcutsDialog?: () => void) {
       handler: () => {
         mediaStore.setPlaybackSpeed(1.0)
       },
-      description: 'Normal playback speed',
+      label: 'Normal playback speed',
+    },
+
+    // Bookmark shortcut
+    {
+      id: 'bookmark',
+      category: 'Bookmarks',
+      keys: [{ key: 'b', repeat: false }],
+      handler: () => {
+        bookmarks.add()
+      },
+      label: 'Add bookmark',
+    },
+
+    // Loop shortcuts
+    {
+      id: 'loop-start',
+      category: 'Loop',
+      keys: [{ key: '[', repeat: false }],
+      handler: () => {
+        mediaStore.setLoopStart()
+      },
+      label: 'Set loop start',
+    },
+    {
+      id: 'loop-end',
+      category: 'Loop',
+      keys: [{ key: ']', repeat: false }],
+      handler: () => {
+        mediaStore.setLoopEnd()
+      },
+      label: 'Set loop end',
+    },
+    {
+      id: 'loop-page',
+      category: 'Loop',
+      keys: [{ key: 'p', repeat: false }],
+      handler: () => {
+        toggleLoopCurrentPage()
+      },
+      label: 'Loop current page',
+    },
+    {
+      id: 'loop-clear',
+      category: 'Loop',
+      keys: [{ key: '\\', repeat: false }],
+      handler: () => {
+        mediaStore.clearLoop()
+      },
+      label: 'Clear loop',
     },
 
     // Help shortcut
     ...(showShortcutsDialog
       ? [{
-        keys: { key: '?', repeat: false },
+        id: 'help',
+        category: 'Help',
+        keys: [{ key: '?', repeat: false }],
         handler: () => {
           showShortcutsDialog()
         },
-        description: 'Show keyboard shortcuts',
-      }]
+        label: 'Show keyboard shortcuts',
+      } satisfies Command]
       : []),
-  ]
+  ])
+
+  // Active shortcuts of all registered commands, updated in place when commands
+  // are added or removed or the user assigns other keys
+  const { bindings } = useCommands()
+  const shortcuts: KeyBinding[] = []
+  watch(
+    bindings,
+    (value) => {
+      shortcuts.splice(0, shortcuts.length, ...value)
+    },
+    { immediate: true },
+  )
 
   // Initialize keyboard shortcuts
-  const { enabled } = useKeyboard(shortcuts, {
+  const { enabled, pendingKeys } = useKeyboard(shortcuts, {
     ignoreEditable: true, // Don't trigger shortcuts when typing in input fields
   })
 
   return {
     enabled,
+    pendingKeys,
   }
 }
@@ -0,0 +1,107 @@
+import { useContentStore } from '@/stores/contentStore'
+import { useMediaControlsStore } from '@/stores/mediaControls'
+import { onBeforeUnmount, watch } from 'vue'
+import { usePlayerControls } from './usePlayerControls'
+
+/** Default offset for seeking forward or backward from headphones or the OS overlay (in milliseconds). */
+const DEFAULT_SEEK_OFFSET = 10000
+
+/**
+ * Composable that connects the player to the Media Session API, so that headphone buttons,
+ * the media overlay of the operating system and lock-screen controls work. Shows the lecture
+ * title, the lecturer and the thumbnail of the current slide, and keeps the position in sync.
+ * Does nothing in browsers without the Media Session API.
+ */
+export function useMediaSession() {
+  const media = useMediaControlsStore()
+  const content = useContentStore()
+  const { selectPrevPage, selectNextPage } = usePlayerControls()
+
+  if (!('mediaSession' in navigator) || !navigator.mediaSession) {
+    return
+  }
+  const session = navigator.mediaSession
+
+  const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+    ['play', () => void media.play()],
+    ['pause', () => media.pause()],
+    ['seekto', (details) => {
+      if (details.seekTime !== undefined) {
+        media.seekTo(details.seekTime * 1000)
+      }
+    }],
+    ['seekbackward', (details) => media.seekBy(-(details.seekOffset ? details.seekOffset * 1000 : DEFAULT_SEEK_OFFSET))],
+    ['seekforward', (details) => media.seekBy(details.seekOffset ? details.seekOffset * 1000 : DEFAULT_SEEK_OFFSET)],
+    ['previoustrack', () => selectPrevPage()],
+    ['nexttrack', () => selectNextPage()],
+  ]
+
+  /**
+   * Sets or removes the action handlers. Browsers throw for actions they don't support.
+   *
+   * @param enable - Whether to set the handlers, or remove them.
+   */
+  const setActionHandlers = (enable: boolean) => {
+    for (const [action, handler] of handlers) {
+      try {
+        session.setActionHandler(action, enable ? handler : null)
+      }
+      catch {
+        // Action not supported by this browser
+      }
+    }
+  }
+
+  setActionHandlers(true)
+
+  // Title, lecturer and the current slide as artwork, updated on page change
+  watch(
+    () => [content.metadata.title, content.metadata.lecturer, content.pageModel[media.currentPage - 1]?.image] as const,
+    ([title, lecturer, image]) => {
+      if (typeof MediaMetadata === 'undefined') {
+        return
+      }
+      session.metadata = new MediaMetadata({
+        title: title || document.title,
+        artist: lecturer ?? '',
+        artwork: image ? [{ src: image, type: 'image/png' }] : [],
+      })
+    },
+    { immediate: true },
+  )
+
+  watch(
+    () => media.playbackState,
+    (state) => {
+      session.playbackState = state === 'playing' ? 'playing' : 'paused'
+    },
+    { immediate: true },
+  )
+
+  // Position state for the seek bar of the OS overlay, only valid once the duration is known
+  watch(
+    () => [media.currentTime, media.totalTime, media.playbackSpeed] as const,
+    ([time, total, speed]) => {
+      if (!session.setPositionState || !(total > 0) || !Number.isFinite(total)) {
+        return
+      }
+      try {
+        session.setPositionState({
+          duration: total / 1000,
+          playbackRate: speed,
+          position: Math.min(Math.max(time, 0), total) / 1000,
+        })
+      }
+      catch (error) {
+        console.warn('Failed to set media session position state:', error)
+      }
+    },
+    { immediate: true },
+  )
+
+  onBeforeUnmount(() => {
+    setActionHandlers(false)
+    session.metadata = null
+    session.playbackState = 'none'
+  })
+}
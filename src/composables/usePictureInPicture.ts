@@ -0,0 +1,144 @@
+import { useMediaControlsStore } from '@/stores/mediaControls'
+import {
+  copyStyleSheets,
+  getDocumentPictureInPicture,
+  isVideoPictureInPictureSupported,
+} from '@/utils/pictureInPicture'
+import { computed, ref, shallowRef } from 'vue'
+
+/** Initial size of the mini-player window (in CSS pixels). */
+const MINI_PLAYER_SIZE = { width: 480, height: 540 }
+
+// Singleton state shared across all consumers
+const pipWindow = shallowRef<Window | null>(null)
+const videoPip = ref(false)
+/** Where the video element was before it moved into the mini-player. */
+let videoHome: { parent: Node; next: Node | null } | null = null
+
+/**
+ * Moves the video element back into the player, keeping it playing.
+ *
+ * @param el - The video element.
+ */
+function returnVideo(el: HTMLMediaElement | null) {
+  if (el && videoHome) {
+    const media = useMediaControlsStore()
+    const playing = !el.paused
+    videoHome.parent.insertBefore(el, videoHome.next)
+    // Browsers may pause a media element while it moves between documents
+    if (playing && el.paused) {
+      void media.play()
+    }
+  }
+  videoHome = null
+  pipWindow.value = null
+}
+
+/**
+ * Composable for showing the player in a Picture-in-Picture window while working in other windows.
+ * Where Document Picture-in-Picture is supported, a mini-player with the video, the current slide and
+ * play/page controls is opened (see PictureInPicturePlayer), otherwise the video alone is shown.
+ * The video element is moved rather than copied, so the playback state stays in sync.
+ */
+export function usePictureInPicture() {
+  const media = useMediaControlsStore()
+
+  /** Whether the browser supports any kind of Picture-in-Picture. */
+  const isSupported = !!getDocumentPictureInPicture() || isVideoPictureInPictureSupported()
+
+  /** Whether the mini-player or the video Picture-in-Picture window is open. */
+  const active = computed(() => pipWindow.value !== null || videoPip.value)
+
+  /**
+   * Opens the Picture-in-Picture window. Must be called in response to a user action.
+   */
+  async function enterPictureInPicture() {
+    const el = media.mediaEl
+    if (!el || active.value) {
+      return
+    }
+    try {
+      const documentPip = getDocumentPictureInPicture()
+      if (documentPip) {
+        const win = await documentPip.requestWindow(MINI_PLAYER_SIZE)
+        copyStyleSheets(win.document)
+        win.document.title = document.title
+        // Closed by the user or by the browser
+        win.addEventListener('pagehide', () => returnVideo(media.mediaEl), { once: true })
+        pipWindow.value = win
+      }
+      else if (el instanceof HTMLVideoElement && isVideoPictureInPictureSupported()) {
+        el.addEventListener('leavepictureinpicture', () => {
+          videoPip.value = false
+        }, { once: true })
+        await el.requestPictureInPicture()
+        videoPip.value = true
+      }
+    }
+    catch (error) {
+      console.error('Failed to enter picture-in-picture:', error)
+    }
+  }
+
+  /**
+   * Closes the Picture-in-Picture window and shows the video in the player again.
+   */
+  async function exitPictureInPicture() {
+    const win = pipWindow.value
+    if (win) {
+      returnVideo(media.mediaEl)
+      win.close()
+    }
+    else if (videoPip.value) {
+      try {
+        await document.exitPictureInPicture()
+      }
+      catch (error) {
+        console.error('Failed to exit picture-in-picture:', error)
+      }
+      videoPip.value = false
+    }
+  }
+
+  /**
+   * Opens or closes the Picture-in-Picture window.
+   */
+  async function togglePictureInPicture() {
+    if (active.value) {
+      await exitPictureInPicture()
+    }
+    else {
+      await enterPictureInPicture()
+    }
+  }
+
+  /**
+   * Moves the video element into the mini-player, remembering where to put it back.
+   *
+   * @param host - The element of the mini-player that shows the video.
+   */
+  function moveVideoTo(host: HTMLElement) {
+    const el = media.mediaEl
+    if (!el || !pipWindow.value || el.parentNode === host) {
+      return
+    }
+    const playing = !el.paused
+    if (!videoHome && el.parentNode) {
+      videoHome = { parent: el.parentNode, next: el.nextSibling }
+    }
+    host.append(el)
+    if (playing && el.paused) {
+      void media.play()
+    }
+  }
+
+  return {
+    isSupported,
+    active,
+    pipWindow,
+    enterPictureInPicture,
+    exitPictureInPicture,
+    togglePictureInPicture,
+    moveVideoTo,
+  }
+}
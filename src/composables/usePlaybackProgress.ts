@@ -0,0 +1,51 @@
+import { useMediaControlsStore } from '@/stores/mediaControls'
+import { usePlaybackProgressStore } from '@/stores/playbackProgress'
+import { onBeforeUnmount, watch } from 'vue'
+
+/** How often the position is saved during playback (in milliseconds). */
+const SAVE_INTERVAL = 5000
+
+/**
+ * Composable that saves the playback progress of the current lecture, so that it can be resumed later.
+ */
+export function usePlaybackProgress() {
+  const media = useMediaControlsStore()
+  const progress = usePlaybackProgressStore()
+
+  // While the user has not answered the resume offer, the saved position would be overwritten with the start
+  const save = () => {
+    if (progress.resumeOffer && !progress.resumedAutomatically) {
+      return
+    }
+    progress.save()
+  }
+
+  /**
+   * Starts saving the progress every few seconds of playback, on pause, at the end,
+   * when the speed changes and when the page is left.
+   * Should be called after the lecture was loaded and a saved position was offered,
+   * so that the initial position does not overwrite it.
+   */
+  const trackPlaybackProgress = () => {
+    watch(() => Math.floor(media.currentTime / SAVE_INTERVAL), save)
+    watch(() => media.playbackSpeed, save)
+    watch(
+      () => media.playbackState,
+      (state) => {
+        if (state === 'paused' || state === 'ended') {
+          save()
+        }
+      },
+    )
+
+    window.addEventListener('pagehide', save)
+  }
+
+  onBeforeUnmount(() => {
+    window.removeEventListener('pagehide', save)
+  })
+
+  return {
+    trackPlaybackProgress,
+  }
+}
@@ -55,9 +55,35 @@ export function usePlayerControls() {
     }
   }
 
+  /**
+   * Loops the time range of the page shown at the playback position, or removes that loop if it is already set.
+   *
+   * @returns {boolean} True if the page is looped now, false if the loop was removed, there are no pages
+   *   or the end of the page is not known yet.
+   */
+  const toggleLoopCurrentPage = (): boolean => {
+    const page = content.pageNumberAt(media.currentTime)
+    const start = content.pageModel[page - 1]?.timestamp
+    if (start === undefined) {
+      return false
+    }
+    const end = content.pageModel[page]?.timestamp ?? media.totalTime
+    // The end of the last page is unknown until the duration is loaded
+    if (end <= start) {
+      return false
+    }
+
+    if (media.loopStart === start && media.loopEnd === end) {
+      media.clearLoop()
+      return false
+    }
+    return media.setLoop(start, end)
+  }
+
   return {
     selectPrevPage,
     selectNextPage,
     selectPage,
+    toggleLoopCurrentPage,
   }
 }
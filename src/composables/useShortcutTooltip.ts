@@ -4,12 +4,11 @@
 
 import {
   formatShortcutForTooltip,
-  getConditionalShortcutTooltip,
-  getRichShortcutTooltip,
-  getShortcutTooltip,
-  lookupShortcut,
-} from '@/utils/shortcutLookup'
+  formatShortcutWithKbd,
+  type KeyboardShortcut,
+} from '@/utils/keyboardShortcuts'
 import { computed, type ComputedRef } from 'vue'
+import { useCommands } from './useCommands'
 
 /**
  * Options for the useShortcutTooltip composable.
@@ -27,8 +26,9 @@ export interface UseShortcutTooltipOptions {
 
 /**
  * Composable for generating tooltip content with keyboard shortcuts.
+ * Shows the keys assigned by the user, if the shortcut was remapped.
  *
- * @param action - The action description to look up shortcuts for.
+ * @param action - The id or label of the command to look up shortcuts for.
  * @param options - Configuration options.
  *
  * @returns Object with tooltip content and shortcut information.
@@ -36,7 +36,7 @@ export interface UseShortcutTooltipOptions {
  * @example
  * ```typescript
  * // Basic usage
- * const { tooltipContent, hasShortcut } = useShortcutTooltip('play')
+ * const { tooltipContent, hasShortcut } = useShortcutTooltip('play-pause')
  * // tooltipContent.value = "Play/Pause video (Space or K)"
  * // hasShortcut.value = true
  *
@@ -61,8 +61,8 @@ export function useShortcutTooltip(
   tooltipContent: ComputedRef<string>
   /** Whether a shortcut was found for this action */
   hasShortcut: ComputedRef<boolean>
-  /** The raw shortcut object if found */
-  shortcut: ComputedRef<ReturnType<typeof lookupShortcut>>
+  /** The command label and key labels if found */
+  shortcut: ComputedRef<KeyboardShortcut | undefined>
   /** The formatted shortcut text */
   shortcutText: ComputedRef<string>
 } {
@@ -73,11 +73,16 @@ export function useShortcutTooltip(
     useRichFormat = true,
   } = options
 
-  // Look up the shortcut
-  const shortcut = computed(() => lookupShortcut(action))
+  const { findCommand, keyLabelsOf } = useCommands()
 
-  // Check if shortcut exists
-  const hasShortcut = computed(() => shortcut.value !== undefined)
+  // Look up the command with the keys assigned by the user
+  const shortcut = computed<KeyboardShortcut | undefined>(() => {
+    const command = findCommand(action)
+    return command && { description: command.label, keys: keyLabelsOf(command) }
+  })
+
+  // Check if shortcut exists and still has keys
+  const hasShortcut = computed(() => shortcut.value !== undefined && shortcut.value.keys.length > 0)
 
   // Generate shortcut text
   const shortcutText = computed(() => shortcut.value ? formatShortcutForTooltip(shortcut.value) : '')
@@ -89,22 +94,16 @@ export function useShortcutTooltip(
     }
 
     // Use conditional text if provided
-    if (conditionalText) {
-      return getConditionalShortcutTooltip(
-        action,
-        conditionalText,
-        fallbackDescription,
-        useRichFormat,
-      )
+    const text = conditionalText || shortcut.value.description
+    if (!hasShortcut.value) {
+      return text
     }
 
     // Use rich format if requested
-    if (useRichFormat) {
-      return getRichShortcutTooltip(action, fallbackDescription)
-    }
-
-    // Default format
-    return getShortcutTooltip(action, fallbackDescription)
+    const keys = useRichFormat
+      ? formatShortcutWithKbd(shortcut.value)
+      : formatShortcutForTooltip(shortcut.value)
+    return `${text} ${keys}`
   })
 
   return {
@@ -120,20 +119,19 @@ export function useShortcutTooltip(
  * These can be used directly in components without needing to specify action names.
  */
 export const mediaPlayerTooltips = {
-  play: () => useShortcutTooltip('play'),
-  pause: () => useShortcutTooltip('pause'),
-  playPause: () => useShortcutTooltip('play/pause'),
-  previous: () => useShortcutTooltip('previous'),
-  next: () => useShortcutTooltip('next'),
-  firstPage: () => useShortcutTooltip('first page'),
-  lastPage: () => useShortcutTooltip('last page'),
-  volumeUp: () => useShortcutTooltip('volume up'),
-  volumeDown: () => useShortcutTooltip('volume down'),
+  playPause: () => useShortcutTooltip('play-pause'),
+  previous: () => useShortcutTooltip('previous-page'),
+  next: () => useShortcutTooltip('next-page'),
+  firstPage: () => useShortcutTooltip('first-page'),
+  lastPage: () => useShortcutTooltip('last-page'),
+  volumeUp: () => useShortcutTooltip('volume-up'),
+  volumeDown: () => useShortcutTooltip('volume-down'),
   mute: () => useShortcutTooltip('mute'),
   fullscreen: () => useShortcutTooltip('fullscreen'),
-  speedUp: () => useShortcutTooltip('speed up'),
-  speedDown: () => useShortcutTooltip('speed down'),
-  normalSpeed: () => useShortcutTooltip('normal speed'),
-  search: () => useShortcutTooltip('search'),
+  speedUp: () => useShortcutTooltip('speed-up'),
+  speedDown: () => useShortcutTooltip('speed-down'),
+  normalSpeed: () => useShortcutTooltip('normal-speed'),
+  search: () => useShortcutTooltip('focus-search'),
+  bookmark: () => useShortcutTooltip('bookmark'),
   help: () => useShortcutTooltip('help'),
 }
@@ -3,6 +3,8 @@
  * - Hours are omitted when 0, otherwise have no leading zero
  * - Minutes (and seconds) are always zero-padded to 2 digits
  * - Null/undefined/negative inputs are treated as 0 milliseconds
+ *
+ * `parseHHMMSS` reads times in the format produced by `formatHHMMSS` back into milliseconds.
  */
 export function useTimeFormat() {
   function getTimeComponents(milliseconds?: number | null) {
@@ -34,5 +36,24 @@ export function useTimeFormat() {
     return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
   }
 
-  return { formatHMM, formatHHMMSS }
+  /**
+   * Parses a `m:ss` or `h:mm:ss` time, as produced by `formatHHMMSS`.
+   * Minutes and seconds after the first component must have two digits and be below 60.
+   *
+   * @param value - The time string.
+   *
+   * @returns The time in milliseconds, or null if the string is not a valid time.
+   */
+  function parseHHMMSS(value: string): number | null {
+    const match = /^(?:(\d+):([0-5]\d)|(\d+)):([0-5]\d)$/.exec(value.trim())
+    if (!match) {
+      return null
+    }
+    const [, hours, minutes, minutesOnly, seconds] = match
+    const totalMinutes = hours !== undefined ? Number(hours) * 60 + Number(minutes) : Number(minutesOnly)
+
+    return (totalMinutes * 60 + Number(seconds)) * 1000
+  }
+
+  return { formatHMM, formatHHMMSS, parseHHMMSS }
 }
@@ -2,7 +2,7 @@ import AppIcon from '@/components/AppIcon.vue'
 import AppTooltip from '@/components/AppTooltip.vue'
 import { createPinia } from 'pinia'
 import { createApp } from 'vue'
-import { RecycleScroller } from 'vue-virtual-scroller'
+import { DynamicScroller, DynamicScrollerItem, RecycleScroller } from 'vue-virtual-scroller'
 import App from './App.vue'
 import './style.css'
 import 'vue-virtual-scroller/dist/vue-virtual-scroller.css'
@@ -16,6 +16,8 @@ const pinia = createPinia()
 app.component('AppIcon', AppIcon)
 app.component('AppTooltip', AppTooltip)
 app.component('RecycleScroller', RecycleScroller)
+app.component('DynamicScroller', DynamicScroller)
+app.component('DynamicScrollerItem', DynamicScrollerItem)
 
 // Install plugins
 app.use(pinia)
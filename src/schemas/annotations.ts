@@ -0,0 +1,51 @@
+import { z } from 'zod'
+
+/**
+ * Zod schema for a point of an ink stroke, relative to the video frame.
+ * Both coordinates range from 0 (left/top) to 1 (right/bottom).
+ */
+export const InkPointSchema = z.tuple([z.number().min(0).max(1), z.number().min(0).max(1)])
+
+/**
+ * Zod schema for an ink stroke drawn over the video.
+ *
+ * @property {string} id - Unique identifier of the stroke.
+ * @property {'pen' | 'highlighter'} tool - The tool the stroke was drawn with.
+ * @property {string} color - The stroke colour as CSS hex colour.
+ * @property {number} width - The stroke width as fraction of the frame width.
+ * @property {InkPoint[]} points - The points of the stroke, relative to the video frame.
+ * @property {number} createdAt - When the stroke was drawn, in milliseconds since the epoch.
+ */
+export const InkStrokeSchema = z.object({
+  id: z.string().min(1),
+  tool: z.enum(['pen', 'highlighter']),
+  color: z.string().regex(/^#[0-9a-f]{6}$/i),
+  width: z.number().positive().max(1),
+  points: z.array(InkPointSchema).min(1),
+  createdAt: z.number().default(0),
+})
+
+/**
+ * Zod schema for the stored annotations of all lectures.
+ *
+ * @property {Record<string, Record<string, InkStroke[]>>} lectures - Strokes per lecture and page,
+ *   keyed by lecture key and 1-based page number, in drawing order.
+ */
+export const AnnotationsSchema = z.object({
+  lectures: z.record(z.string(), z.record(z.string(), z.array(InkStrokeSchema))).default({}),
+})
+
+/**
+ * Type definition for a point of an ink stroke.
+ */
+export type InkPoint = z.infer<typeof InkPointSchema>
+
+/**
+ * Type definition for an ink stroke.
+ */
+export type InkStroke = z.infer<typeof InkStrokeSchema>
+
+/**
+ * Type definition for the stored annotations.
+ */
+export type Annotations = z.infer<typeof AnnotationsSchema>
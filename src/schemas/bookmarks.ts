@@ -0,0 +1,37 @@
+import { z } from 'zod'
+
+/**
+ * Zod schema for a bookmarked moment of a lecture.
+ *
+ * @property {string} id - Unique identifier of the bookmark.
+ * @property {number} time - Playback time in milliseconds.
+ * @property {number} page - The 1-based page shown at that time.
+ * @property {string} label - User-editable label.
+ * @property {number} createdAt - When the bookmark was added, in milliseconds since the epoch.
+ */
+export const BookmarkSchema = z.object({
+  id: z.string().min(1),
+  time: z.number().nonnegative(),
+  page: z.number().int().positive(),
+  label: z.string(),
+  createdAt: z.number().default(0),
+})
+
+/**
+ * Zod schema for the stored bookmarks of all lectures.
+ *
+ * @property {Record<string, Bookmark[]>} lectures - Bookmarks per lecture, keyed by lecture key and sorted by time.
+ */
+export const BookmarksSchema = z.object({
+  lectures: z.record(z.string(), z.array(BookmarkSchema)).default({}),
+})
+
+/**
+ * Type definition for a bookmark.
+ */
+export type Bookmark = z.infer<typeof BookmarkSchema>
+
+/**
+ * Type definition for the stored bookmarks.
+ */
+export type Bookmarks = z.infer<typeof BookmarksSchema>
@@ -0,0 +1,39 @@
+import { z } from 'zod'
+
+/**
+ * Zod schema for a personal note taken at a moment of a lecture.
+ *
+ * @property {string} id - Unique identifier of the note.
+ * @property {number} time - Playback time in milliseconds.
+ * @property {number} page - The 1-based page shown at that time.
+ * @property {string} text - The note in Markdown.
+ * @property {number} createdAt - When the note was added, in milliseconds since the epoch.
+ * @property {number} updatedAt - When the note was last edited, in milliseconds since the epoch.
+ */
+export const NoteSchema = z.object({
+  id: z.string().min(1),
+  time: z.number().nonnegative(),
+  page: z.number().int().positive(),
+  text: z.string(),
+  createdAt: z.number().default(0),
+  updatedAt: z.number().default(0),
+})
+
+/**
+ * Zod schema for the stored notes of all lectures.
+ *
+ * @property {Record<string, Note[]>} lectures - Notes per lecture, keyed by lecture key and sorted by time.
+ */
+export const NotesSchema = z.object({
+  lectures: z.record(z.string(), z.array(NoteSchema)).default({}),
+})
+
+/**
+ * Type definition for a note.
+ */
+export type Note = z.infer<typeof NoteSchema>
+
+/**
+ * Type definition for the stored notes.
+ */
+export type Notes = z.infer<typeof NotesSchema>
@@ -0,0 +1,251 @@
+import { z } from 'zod'
+
+/**
+ * Current version of the page model envelope format.
+ * Increase this whenever the envelope changes and add a migration step below.
+ */
+export const PAGE_MODEL_FORMAT_VERSION = 1
+
+/**
+ * Zod schema for a time-coded point of a recorded pen or pointer movement.
+ * Holds the position relative to the page, from 0 (left/top) to 1 (right/bottom),
+ * and the recording time in milliseconds.
+ */
+export const RecordedPointSchema = z.tuple([
+  z.number().min(0).max(1),
+  z.number().min(0).max(1),
+  z.number().nonnegative(),
+])
+
+/**
+ * Zod schema for a pen or highlighter stroke drawn while recording.
+ * The stroke grows point by point during playback.
+ *
+ * @property {'stroke'} type - Event discriminator.
+ * @property {'pen' | 'highlighter'} tool - The tool the stroke was drawn with.
+ * @property {string} color - The stroke colour as CSS hex colour.
+ * @property {number} width - The stroke width as fraction of the page width.
+ * @property {RecordedPoint[]} points - The points of the stroke, sorted by time.
+ */
+export const RecordedStrokeEventSchema = z.object({
+  type: z.literal('stroke'),
+  tool: z.enum(['pen', 'highlighter']),
+  color: z.string().regex(/^#[0-9a-f]{6}$/i),
+  width: z.number().positive().max(1),
+  points: z.array(RecordedPointSchema).min(1),
+})
+
+/**
+ * Zod schema for a laser pointer movement recorded while presenting.
+ *
+ * @property {'pointer'} type - Event discriminator.
+ * @property {string} color - The pointer colour as CSS hex colour.
+ * @property {RecordedPoint[]} points - The pointer positions, sorted by time.
+ */
+export const RecordedPointerEventSchema = z.object({
+  type: z.literal('pointer'),
+  color: z.string().regex(/^#[0-9a-f]{6}$/i).default('#ff0000'),
+  points: z.array(RecordedPointSchema).min(1),
+})
+
+/**
+ * Zod schema for a zoom into a region of the page. A region covering the whole page resets the zoom.
+ *
+ * @property {'zoom'} type - Event discriminator.
+ * @property {number} time - Recording time in milliseconds.
+ * @property {number} x - Left edge of the region relative to the page.
+ * @property {number} y - Top edge of the region relative to the page.
+ * @property {number} width - Width of the region relative to the page.
+ * @property {number} height - Height of the region relative to the page.
+ */
+export const RecordedZoomEventSchema = z.object({
+  type: z.literal('zoom'),
+  time: z.number().nonnegative(),
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().positive().max(1),
+  height: z.number().positive().max(1),
+})
+
+/**
+ * Zod schema for removing all strokes drawn on the page so far.
+ *
+ * @property {'clear'} type - Event discriminator.
+ * @property {number} time - Recording time in milliseconds.
+ */
+export const RecordedClearEventSchema = z.object({
+  type: z.literal('clear'),
+  time: z.number().nonnegative(),
+})
+
+/**
+ * Zod schema for a pen, pointer or zoom action recorded by lectureStudio.
+ */
+export const RecordedEventSchema = z.discriminatedUnion('type', [
+  RecordedStrokeEventSchema,
+  RecordedPointerEventSchema,
+  RecordedZoomEventSchema,
+  RecordedClearEventSchema,
+])
+
+/**
+ * Zod schema for a single encoded page as produced by the recording pipeline.
+ *
+ * @property {number} time - Start time of the page in milliseconds.
+ * @property {string} text - Base64-encoded extracted page text.
+ * @property {string} thumb - PNG data URL of the page thumbnail.
+ * @property {RecordedEvent[]} events - Pen, pointer and zoom actions recorded on the page, in recording order.
+ */
+export const PageEncodedSchema = z.object({
+  time: z.number().nonnegative(),
+  text: z.string().default(''),
+  thumb: z.string().default(''),
+  events: z.array(RecordedEventSchema).optional(),
+})
+
+/**
+ * Zod schema for descriptive lecture metadata. All fields are optional,
+ * the player falls back to neutral defaults when they are missing.
+ *
+ * @property {string} title - Title of the lecture.
+ * @property {string} lecturer - Name of the lecturer.
+ * @property {string} recordingDate - ISO 8601 date (or date-time) of the recording.
+ * @property {string} language - BCP 47 language tag of the spoken language.
+ */
+export const LectureMetadataSchema = z.object({
+  title: z.string().optional(),
+  lecturer: z.string().optional(),
+  recordingDate: z.string().optional(),
+  language: z.string().optional(),
+})
+
+/**
+ * Zod schema for one encoding of the lecture video.
+ *
+ * @property {string} src - Path or URL of the video file.
+ * @property {string} type - MIME type including optional codecs, e.g. `video/webm; codecs="av01.0.05M.08"`.
+ * @property {number} width - Frame width in pixels.
+ * @property {number} height - Frame height in pixels.
+ * @property {number} bitrate - Average bitrate in bits per second.
+ * @property {string} label - Display name overriding the generated quality label.
+ */
+export const VideoSourceSchema = z.object({
+  src: z.string().min(1),
+  type: z.string().min(1),
+  width: z.number().int().positive().optional(),
+  height: z.number().int().positive().optional(),
+  bitrate: z.number().positive().optional(),
+  label: z.string().optional(),
+})
+
+/**
+ * Zod schema for a caption track. The cues are either embedded as WebVTT text
+ * or loaded from a sidecar `.vtt` file next to the video.
+ *
+ * @property {string} language - BCP 47 language tag of the captions.
+ * @property {string} label - Display name, e.g. "Deutsch" or "English (auto-generated)".
+ * @property {string} src - Path or URL of a sidecar WebVTT file.
+ * @property {string} vtt - Embedded WebVTT file contents.
+ * @property {boolean} default - Whether the track is shown initially.
+ */
+export const CaptionTrackSchema = z.object({
+  language: z.string().min(1),
+  label: z.string().optional(),
+  src: z.string().min(1).optional(),
+  vtt: z.string().optional(),
+  default: z.boolean().optional(),
+}).refine(track => track.src !== undefined || track.vtt !== undefined, {
+  message: 'A caption track needs either a src or embedded vtt text',
+})
+
+/**
+ * Zod schema for a single time-coded transcript cue.
+ *
+ * @property {number} start - Start time in milliseconds.
+ * @property {number} end - End time in milliseconds.
+ * @property {string} text - Spoken text of the cue.
+ */
+export const TranscriptCueSchema = z.object({
+  start: z.number().nonnegative(),
+  end: z.number().nonnegative(),
+  text: z.string(),
+})
+
+/**
+ * Zod schema for the lecture transcript: either embedded cues or the
+ * path of a WebVTT file containing them.
+ */
+export const TranscriptSchema = z.union([
+  z.array(TranscriptCueSchema),
+  z.object({ src: z.string().min(1) }),
+])
+
+/**
+ * Upgrades older page model payloads to the current envelope format.
+ * Version 0 payloads are bare arrays of encoded pages without any metadata.
+ *
+ * @param raw - The parsed JSON payload.
+ *
+ * @returns The payload in the current envelope format, or the input if it is not recognized.
+ */
+function migratePageModelData(raw: unknown): unknown {
+  if (Array.isArray(raw)) {
+    return { version: PAGE_MODEL_FORMAT_VERSION, pages: raw }
+  }
+  return raw
+}
+
+/**
+ * Zod schema for the versioned page model envelope.
+ * Legacy payloads are migrated before validation.
+ */
+export const PageModelDataSchema = z.preprocess(
+  migratePageModelData,
+  LectureMetadataSchema.extend({
+    version: z.literal(PAGE_MODEL_FORMAT_VERSION),
+    pages: z.array(PageEncodedSchema),
+    sources: z.array(VideoSourceSchema).optional(),
+    captions: z.array(CaptionTrackSchema).optional(),
+    transcript: TranscriptSchema.optional(),
+  }),
+)
+
+/**
+ * Type definition for a time-coded point of a recorded movement.
+ */
+export type RecordedPoint = z.infer<typeof RecordedPointSchema>
+
+/**
+ * Type definition for a recorded pen, pointer or zoom action.
+ */
+export type RecordedEvent = z.infer<typeof RecordedEventSchema>
+
+/**
+ * Type definition for a single encoded page.
+ */
+export type PageEncoded = z.infer<typeof PageEncodedSchema>
+
+/**
+ * Type definition for a single video source.
+ */
+export type VideoSource = z.infer<typeof VideoSourceSchema>
+
+/**
+ * Type definition for a caption track.
+ */
+export type CaptionTrack = z.infer<typeof CaptionTrackSchema>
+
+/**
+ * Type definition for the transcript declaration.
+ */
+export type Transcript = z.infer<typeof TranscriptSchema>
+
+/**
+ * Type definition for the lecture metadata.
+ */
+export type LectureMetadata = z.infer<typeof LectureMetadataSchema>
+
+/**
+ * Type definition for the validated page model envelope.
+ */
+export type PageModelData = z.infer<typeof PageModelDataSchema>
@@ -0,0 +1,37 @@
+import { z } from 'zod'
+
+/**
+ * Zod schema for the saved playback state of a lecture.
+ *
+ * @property {number} time - Playback position in milliseconds.
+ * @property {number} speed - Playback speed multiplier.
+ * @property {number} page - The 1-based page shown at that position.
+ * @property {boolean} completed - Whether the lecture was watched to the end.
+ * @property {number} updatedAt - When the state was saved, in milliseconds since the epoch.
+ */
+export const LectureProgressSchema = z.object({
+  time: z.number().nonnegative(),
+  speed: z.number().positive().default(1),
+  page: z.number().int().positive().default(1),
+  completed: z.boolean().default(false),
+  updatedAt: z.number().default(0),
+})
+
+/**
+ * Zod schema for the stored playback progress of all lectures.
+ *
+ * @property {Record<string, LectureProgress>} lectures - Saved playback state, keyed by lecture key.
+ */
+export const PlaybackProgressSchema = z.object({
+  lectures: z.record(z.string(), LectureProgressSchema).default({}),
+})
+
+/**
+ * Type definition for the saved playback state of a lecture.
+ */
+export type LectureProgress = z.infer<typeof LectureProgressSchema>
+
+/**
+ * Type definition for the stored playback progress.
+ */
+export type PlaybackProgress = z.infer<typeof PlaybackProgressSchema>
@@ -0,0 +1,18 @@
+import { z } from 'zod'
+
+/**
+ * Zod schema for the stored search history.
+ * Lists are ordered from the most recent query to the oldest.
+ *
+ * @property {string[]} global - Recent queries across all lectures.
+ * @property {Record<string, string[]>} lectures - Recent queries per lecture, keyed by lecture key.
+ */
+export const SearchHistorySchema = z.object({
+  global: z.array(z.string()).default([]),
+  lectures: z.record(z.string(), z.array(z.string())).default({}),
+})
+
+/**
+ * Type definition for the stored search history.
+ */
+export type SearchHistory = z.infer<typeof SearchHistorySchema>
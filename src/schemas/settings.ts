@@ -1,15 +1,75 @@
 import { z } from 'zod'
 
+/**
+ * Zod schema for a single key of a keyboard shortcut.
+ * A missing modifier matches both states, like in the default key bindings.
+ *
+ * @property {string} [key] - The key value (KeyboardEvent.key).
+ * @property {string} [code] - The physical key (KeyboardEvent.code), for keys that depend on the layout.
+ * @property {boolean} [ctrl] - Whether the Ctrl key must be pressed.
+ * @property {boolean} [shift] - Whether the Shift key must be pressed.
+ * @property {boolean} [alt] - Whether the Alt key must be pressed.
+ * @property {boolean} [meta] - Whether the Meta key must be pressed.
+ */
+const ShortcutStepSchema = z.object({
+  key: z.string().min(1).optional(),
+  code: z.string().min(1).optional(),
+  ctrl: z.boolean().optional(),
+  shift: z.boolean().optional(),
+  alt: z.boolean().optional(),
+  meta: z.boolean().optional(),
+})
+
+/** Error message for keys without key value and physical key, which would match any key. */
+const KEY_REQUIRED = 'Either key or code is required'
+
+/**
+ * Checks that a key names the key value or the physical key.
+ *
+ * @param step - The key to check.
+ */
+function hasKey(step: z.infer<typeof ShortcutStepSchema>): boolean {
+  return !!step.key || !!step.code
+}
+
+/**
+ * Zod schema for a key combination assigned to a keyboard shortcut by the user.
+ * Default key sequences like "g g" are kept when other keys are assigned next to them.
+ *
+ * @property {ShortcutStep[]} [prefix] - Keys pressed one after another before the key.
+ * @property {boolean} [digits] - Whether a number is typed between the prefix and the key.
+ */
+export const ShortcutKeySchema = ShortcutStepSchema.extend({
+  prefix: z.array(ShortcutStepSchema.refine(hasKey, KEY_REQUIRED)).optional(),
+  digits: z.boolean().optional(),
+}).refine(hasKey, KEY_REQUIRED)
+
 /**
  * Zod schema for application settings.
  * Used for validation of user configuration.
  *
  * @property {('light'|'dark')} theme - The visual theme of the application.
  * @property {('left'|'right'|'none')} sidebarPosition - Position of the sidebar in the UI.
+ * @property {('small'|'medium'|'large')} captionSize - Font size of the caption overlay.
+ * @property {number} captionBackgroundOpacity - Opacity of the caption background in percent (0-100).
+ * @property {('top'|'bottom')} captionPosition - Vertical placement of the caption overlay.
+ * @property {boolean} fuzzySearch - Whether the search also matches words with typos.
+ * @property {boolean} updateLinkWhilePlaying - Whether the address bar follows the playback position.
+ * @property {boolean} autoResume - Whether lectures resume at the saved position without asking.
+ * @property {boolean} showRecordedInk - Whether pen and pointer actions recorded with the lecture are shown.
+ * @property {Record<string, ShortcutKey[]>} shortcuts - Keys assigned by the user per shortcut id, replacing the default keys.
  */
 export const AppSettingsSchema = z.object({
   theme: z.enum(['light', 'dark']),
   sidebarPosition: z.enum(['left', 'right', 'none']),
+  captionSize: z.enum(['small', 'medium', 'large']).default('medium'),
+  captionBackgroundOpacity: z.number().min(0).max(100).default(75),
+  captionPosition: z.enum(['top', 'bottom']).default('bottom'),
+  fuzzySearch: z.boolean().default(false),
+  updateLinkWhilePlaying: z.boolean().default(false),
+  autoResume: z.boolean().default(false),
+  showRecordedInk: z.boolean().default(true),
+  shortcuts: z.record(z.string(), z.array(ShortcutKeySchema)).default({}),
 })
 
 /**
@@ -34,3 +94,20 @@ export type Theme = z.infer<typeof AppSettingsSchema>['theme']
  * - 'none': Hides the sidebar completely
  */
 export type SidebarPosition = z.infer<typeof AppSettingsSchema>['sidebarPosition']
+
+/**
+ * Defines the font size of the caption overlay.
+ */
+export type CaptionSize = z.infer<typeof AppSettingsSchema>['captionSize']
+
+/**
+ * Defines the vertical placement of the caption overlay.
+ * - 'top': Captions are shown at the top of the video
+ * - 'bottom': Captions are shown at the bottom of the video
+ */
+export type CaptionPosition = z.infer<typeof AppSettingsSchema>['captionPosition']
+
+/**
+ * A key combination assigned to a keyboard shortcut by the user.
+ */
+export type ShortcutKey = z.infer<typeof ShortcutKeySchema>
@@ -0,0 +1,180 @@
+import { AnnotationsSchema, type InkPoint, type InkStroke } from '@/schemas/annotations'
+import { roundCoordinate, TOOL_WIDTHS } from '@/utils/ink'
+import { loadJSON, saveJSON } from '@/utils/storage'
+import { defineStore } from 'pinia'
+import { useContentStore } from './contentStore'
+import { useMediaControlsStore } from './mediaControls'
+
+export type InkTool = InkStroke['tool'] | 'eraser'
+
+const STORAGE_KEY = 'app:annotations'
+
+/** Used to keep ids unique when several strokes are drawn within the same millisecond. */
+let idCounter = 0
+
+export const useAnnotationsStore = defineStore('annotations', {
+  state: () => ({
+    lectures: {} as Record<string, Record<string, InkStroke[]>>,
+    drawing: false, // True while the video is covered by the drawing surface
+    tool: 'pen' as InkTool,
+    color: '#e11d48',
+  }),
+  getters: {
+    /**
+     * Returns the strokes of the current lecture per page.
+     *
+     * @param state - The store state object.
+     *
+     * @returns Map from 1-based page number to the strokes in drawing order.
+     */
+    pages(state): Record<string, InkStroke[]> {
+      return state.lectures[useContentStore().lectureKey] ?? {}
+    },
+    /**
+     * Returns the strokes of the page currently shown.
+     *
+     * @returns The strokes in drawing order.
+     */
+    strokes(): InkStroke[] {
+      return this.pages[useMediaControlsStore().currentPage] ?? []
+    },
+    /**
+     * Returns the pages of the current lecture that have annotations.
+     *
+     * @returns The 1-based page numbers in ascending order.
+     */
+    annotatedPages(): number[] {
+      return Object.keys(this.pages).map(Number).sort((a, b) => a - b)
+    },
+  },
+  actions: {
+    // Returns true if valid annotations were loaded from storage, false otherwise
+    loadFromStorage(): boolean {
+      try {
+        const raw = loadJSON(STORAGE_KEY)
+        if (!raw) {
+          return false
+        }
+        const parsed = AnnotationsSchema.safeParse(raw)
+        if (parsed.success) {
+          this.lectures = parsed.data.lectures
+          return true
+        }
+        else {
+          console.error('Invalid annotations in storage, ignoring', parsed.error)
+          return false
+        }
+      }
+      catch (error) {
+        console.error('Failed to load annotations from storage:', error)
+        return false
+      }
+    },
+
+    persist() {
+      try {
+        saveJSON(STORAGE_KEY, { lectures: this.lectures })
+      }
+      catch (error) {
+        console.error('Failed to save annotations to storage:', error)
+      }
+    },
+
+    /**
+     * Replaces the strokes of a page of the current lecture and saves them.
+     *
+     * @param page - The 1-based page number.
+     * @param strokes - The new strokes in drawing order.
+     */
+    setStrokes(page: number, strokes: InkStroke[]) {
+      const key = useContentStore().lectureKey
+      const { [page]: _previous, ...otherPages } = this.pages
+      const pages = strokes.length > 0 ? { ...otherPages, [page]: strokes } : otherPages
+      const { [key]: _lecture, ...others } = this.lectures
+
+      this.lectures = Object.keys(pages).length > 0 ? { ...others, [key]: pages } : others
+      this.persist()
+    },
+
+    /**
+     * Adds a stroke drawn with the current tool and colour.
+     *
+     * @param points - The points relative to the video frame.
+     * @param page - The 1-based page number, defaults to the page currently shown.
+     *
+     * @returns The new stroke, or undefined if there are no points or the eraser is selected.
+     */
+    addStroke(points: InkPoint[], page: number = useMediaControlsStore().currentPage): InkStroke | undefined {
+      if (points.length === 0 || this.tool === 'eraser') {
+        return undefined
+      }
+
+      const stroke: InkStroke = {
+        id: `${Date.now().toString(36)}-${(idCounter++).toString(36)}`,
+        tool: this.tool,
+        color: this.color,
+        width: TOOL_WIDTHS[this.tool],
+        points: points.map(([x, y]) => [roundCoordinate(x), roundCoordinate(y)]),
+        createdAt: Date.now(),
+      }
+
+      this.setStrokes(page, [...(this.pages[page] ?? []), stroke])
+      return stroke
+    },
+
+    /**
+     * Deletes a stroke.
+     *
+     * @param id - The stroke id.
+     * @param page - The 1-based page number, defaults to the page currently shown.
+     */
+    removeStroke(id: string, page: number = useMediaControlsStore().currentPage) {
+      const strokes = this.pages[page] ?? []
+      if (strokes.some(stroke => stroke.id === id)) {
+        this.setStrokes(page, strokes.filter(stroke => stroke.id !== id))
+      }
+    },
+
+    /**
+     * Deletes the last stroke drawn on a page.
+     *
+     * @param page - The 1-based page number, defaults to the page currently shown.
+     */
+    undo(page: number = useMediaControlsStore().currentPage) {
+      const strokes = this.pages[page] ?? []
+      if (strokes.length > 0) {
+        this.setStrokes(page, strokes.slice(0, -1))
+      }
+    },
+
+    /**
+     * Deletes all strokes of a page.
+     *
+     * @param page - The 1-based page number, defaults to the page currently shown.
+     */
+    clearPage(page: number = useMediaControlsStore().currentPage) {
+      if (this.pages[page]) {
+        this.setStrokes(page, [])
+      }
+    },
+
+    /**
+     * Selects a colour. Picking a colour while erasing switches back to the pen.
+     *
+     * @param color - The colour as CSS hex colour.
+     */
+    setColor(color: string) {
+      this.color = color
+      if (this.tool === 'eraser') {
+        this.tool = 'pen'
+      }
+    },
+
+    /**
+     * Shows or hides the drawing surface over the video.
+     */
+    toggleDrawing() {
+      this.drawing = !this.drawing
+    },
+  },
+})
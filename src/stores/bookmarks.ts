@@ -0,0 +1,162 @@
+import { useTimeFormat } from '@/composables/useTimeFormat'
+import { type Bookmark, BookmarksSchema } from '@/schemas/bookmarks'
+import { loadJSON, saveJSON } from '@/utils/storage'
+import { defineStore } from 'pinia'
+import { useContentStore } from './contentStore'
+import { useMediaControlsStore } from './mediaControls'
+
+const STORAGE_KEY = 'app:bookmarks'
+
+/** Bookmarks closer than this to an existing one are not added again (in milliseconds). */
+const DUPLICATE_DISTANCE = 1000
+
+/** Maximum length of the label taken from the page text. */
+const MAX_DEFAULT_LABEL_LENGTH = 60
+
+/** Used to keep ids unique when several bookmarks are added within the same millisecond. */
+let idCounter = 0
+
+/**
+ * Creates a label for a new bookmark from the first line of the page text.
+ *
+ * @param text - The text of the bookmarked page.
+ * @param time - The bookmarked time in milliseconds.
+ *
+ * @returns The label, or a generic label with the time if the page has no text.
+ */
+function defaultLabel(text: string, time: number): string {
+  const line = text.split('\n').map(entry => entry.trim()).find(entry => entry.length > 0)
+  if (!line) {
+    return `Bookmark at ${useTimeFormat().formatHHMMSS(time)}`
+  }
+  return line.length > MAX_DEFAULT_LABEL_LENGTH ? `${line.slice(0, MAX_DEFAULT_LABEL_LENGTH - 1).trimEnd()}…` : line
+}
+
+export const useBookmarksStore = defineStore('bookmarks', {
+  state: () => ({
+    lectures: {} as Record<string, Bookmark[]>,
+  }),
+  getters: {
+    /**
+     * Returns the bookmarks of the current lecture.
+     *
+     * @param state - The store state object.
+     *
+     * @returns The bookmarks, sorted by time.
+     */
+    bookmarks(state): Bookmark[] {
+      return state.lectures[useContentStore().lectureKey] ?? []
+    },
+    /**
+     * Counts the bookmarks of the current lecture per page.
+     *
+     * @returns Map from 1-based page number to the number of bookmarks on that page.
+     */
+    bookmarkCountsByPage(): Map<number, number> {
+      const counts = new Map<number, number>()
+      for (const bookmark of this.bookmarks) {
+        counts.set(bookmark.page, (counts.get(bookmark.page) ?? 0) + 1)
+      }
+      return counts
+    },
+  },
+  actions: {
+    // Returns true if valid bookmarks were loaded from storage, false otherwise
+    loadFromStorage(): boolean {
+      try {
+        const raw = loadJSON(STORAGE_KEY)
+        if (!raw) {
+          return false
+        }
+        const parsed = BookmarksSchema.safeParse(raw)
+        if (parsed.success) {
+          this.lectures = parsed.data.lectures
+          return true
+        }
+        else {
+          console.error('Invalid bookmarks in storage, ignoring', parsed.error)
+          return false
+        }
+      }
+      catch (error) {
+        console.error('Failed to load bookmarks from storage:', error)
+        return false
+      }
+    },
+
+    persist() {
+      try {
+        saveJSON(STORAGE_KEY, this.$state)
+      }
+      catch (error) {
+        console.error('Failed to save bookmarks to storage:', error)
+      }
+    },
+
+    /**
+     * Replaces the bookmarks of the current lecture and saves them.
+     *
+     * @param bookmarks - The new bookmarks.
+     */
+    setBookmarks(bookmarks: Bookmark[]) {
+      const key = useContentStore().lectureKey
+      const { [key]: _previous, ...others } = this.lectures
+
+      this.lectures = bookmarks.length > 0
+        ? { ...others, [key]: [...bookmarks].sort((a, b) => a.time - b.time) }
+        : others
+      this.persist()
+    },
+
+    /**
+     * Bookmarks a moment of the current lecture.
+     * The label is taken from the text of the page shown at that time.
+     *
+     * @param time - The time in milliseconds, defaults to the current playback time.
+     *
+     * @returns The new bookmark, or an existing one at nearly the same time.
+     */
+    add(time: number = useMediaControlsStore().currentTime): Bookmark {
+      const existing = this.bookmarks.find(bookmark => Math.abs(bookmark.time - time) < DUPLICATE_DISTANCE)
+      if (existing) {
+        return existing
+      }
+
+      const content = useContentStore()
+      const page = content.pageNumberAt(time)
+      const bookmark: Bookmark = {
+        id: `${Date.now().toString(36)}-${(idCounter++).toString(36)}`,
+        time: Math.max(0, Math.floor(time)),
+        page,
+        label: defaultLabel(content.pageModel[page - 1]?.text ?? '', time),
+        createdAt: Date.now(),
+      }
+
+      this.setBookmarks([...this.bookmarks, bookmark])
+      return bookmark
+    },
+
+    /**
+     * Changes the label of a bookmark of the current lecture.
+     *
+     * @param id - The bookmark id.
+     * @param label - The new label; blank labels are ignored.
+     */
+    rename(id: string, label: string) {
+      const trimmed = label.trim()
+      if (!trimmed) {
+        return
+      }
+      this.setBookmarks(this.bookmarks.map(bookmark => bookmark.id === id ? { ...bookmark, label: trimmed } : bookmark))
+    },
+
+    /**
+     * Deletes a bookmark of the current lecture.
+     *
+     * @param id - The bookmark id.
+     */
+    remove(id: string) {
+      this.setBookmarks(this.bookmarks.filter(bookmark => bookmark.id !== id))
+    },
+  },
+})
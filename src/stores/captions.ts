@@ -0,0 +1,121 @@
+import type { CaptionTrack } from '@/schemas/pageModel'
+import { type Cue, fetchWebVTT, findActiveCues, parseWebVTT } from '@/utils/webvtt'
+import { defineStore } from 'pinia'
+import { markRaw, toRaw } from 'vue'
+import { useMediaControlsStore } from './mediaControls'
+
+/**
+ * Parsed cues per track, so switching back and forth does not fetch files again.
+ */
+const cueCache = new WeakMap<CaptionTrack, Promise<Cue[]>>()
+
+/**
+ * Loads the cues of a caption track from its embedded text or sidecar file.
+ *
+ * @param track - The caption track.
+ *
+ * @returns The parsed cues.
+ */
+function loadTrackCues(track: CaptionTrack): Promise<Cue[]> {
+  const key = toRaw(track)
+  let cues = cueCache.get(key)
+  if (!cues) {
+    cues = track.vtt !== undefined
+      ? Promise.resolve().then(() => parseWebVTT(track.vtt!))
+      : fetchWebVTT(track.src!)
+    // Allow retrying after a failure
+    cues.catch(() => cueCache.delete(key))
+    cueCache.set(key, cues)
+  }
+  return cues
+}
+
+export const useCaptionsStore = defineStore('captions', {
+  state: () => ({
+    tracks: [] as CaptionTrack[],
+    activeLanguage: null as string | null, // null = captions off
+    cues: [] as Cue[], // Cues of the active track, sorted by start time
+    loading: false as boolean,
+    error: null as string | null,
+  }),
+  getters: {
+    /**
+     * Returns the caption track that is currently shown.
+     *
+     * @param state - The store state object.
+     *
+     * @returns The active track, or undefined when captions are off.
+     */
+    activeTrack(state): CaptionTrack | undefined {
+      return state.tracks.find(track => track.language === state.activeLanguage)
+    },
+    /**
+     * Returns the cues to display at the current playback time.
+     *
+     * @param state - The store state object.
+     *
+     * @returns Visible cues, in start time order.
+     */
+    activeCues(state): Cue[] {
+      if (state.activeLanguage === null) {
+        return []
+      }
+      return findActiveCues(state.cues, useMediaControlsStore().currentTime)
+    },
+  },
+  actions: {
+    /**
+     * Replaces the available caption tracks and shows the track marked as default, if any.
+     *
+     * @param tracks - Caption tracks declared in the page model.
+     */
+    async setTracks(tracks: CaptionTrack[]) {
+      this.tracks = tracks
+      this.activeLanguage = null
+      this.cues = []
+      this.error = null
+
+      const defaultTrack = tracks.find(track => track.default)
+      if (defaultTrack) {
+        await this.selectTrack(defaultTrack.language)
+      }
+    },
+    /**
+     * Shows the caption track for the given language, or turns captions off.
+     *
+     * @param language - Language of the track to show, or null to hide captions.
+     */
+    async selectTrack(language: string | null) {
+      const track = this.tracks.find(t => t.language === language)
+
+      this.error = null
+      if (!track) {
+        this.activeLanguage = null
+        this.cues = []
+        return
+      }
+
+      this.activeLanguage = track.language
+      this.loading = true
+
+      try {
+        const cues = await loadTrackCues(track)
+        // Ignore the result if another track was selected in the meantime
+        if (this.activeLanguage === track.language) {
+          this.cues = markRaw(cues)
+        }
+      }
+      catch (error) {
+        console.error(`Failed to load captions (${track.language}):`, error)
+        if (this.activeLanguage === track.language) {
+          this.activeLanguage = null
+          this.cues = []
+          this.error = 'The captions could not be loaded.'
+        }
+      }
+      finally {
+        this.loading = false
+      }
+    },
+  },
+})
@@ -1,16 +1,28 @@
-import { base64ToUtf8 } from '@/utils/text'
+import type { LectureMetadata, PageEncoded, RecordedEvent, Transcript, VideoSource } from '@/schemas/pageModel'
+import { findPageIndexAt, type SearchOrder, type SearchResult, sortSearchResults } from '@/utils/search'
+import {
+  buildSearchIndex,
+  buildSearchIndexInWorker,
+  querySearchIndex,
+  type SearchIndex,
+  suggestTerms,
+} from '@/utils/searchIndex'
+import { base64ToUtf8, hashString } from '@/utils/text'
+import { filterPlayableSources, pickPreferredSource } from '@/utils/videoSources'
+import { type Cue, fetchWebVTT } from '@/utils/webvtt'
+import { PageModelDataSchema } from '@schemas/pageModel'
 import { defineStore } from 'pinia'
+import { markRaw } from 'vue'
+import { z } from 'zod'
+import { useCaptionsStore } from './captions'
 import { useMediaControlsStore } from './mediaControls'
+import { useSettingsStore } from './settings'
 
-type PageModelEncoded = {
-  time: number
-  text: string
-  thumb: string
-}
 type PageModel = {
   timestamp: number
   image: string
   text: string
+  events?: RecordedEvent[] // Pen, pointer and zoom actions recorded on the page
 }
 
 // Check if we're in development mode
@@ -22,44 +34,256 @@ const videoSource = isDev ? '/dev.mp4' : '#{videoSourcePath}'
 const pageModelDataPath = isDev ? '/dev.data' : ''
 const pageModelData = isDev ? '' : '#{pageModelData}'
 
+/**
+ * Increased for every index build, so results of outdated builds can be discarded.
+ */
+let searchIndexRequest = 0
+
 export const useContentStore = defineStore('content', {
   state: () => ({
     lastQuery: '' as string,
     matchesTotal: 0 as number,
-    matchesCurrent: 0 as number,
+    matchesCurrent: 0 as number, // 1-based position of the current result in time order
     pageModel: [] as PageModel[],
     videoSource: videoSource,
-    searchMatches: [] as number[], // Array of pageModel indices that match the search
+    videoSources: [] as VideoSource[], // Alternative encodings of the video, if provided by the page model
+    transcript: [] as Cue[], // Time-coded transcript, sorted by start time
+    searchIndex: null as SearchIndex | null, // Built in a worker after loading
+    searchMatches: [] as SearchResult[], // Slide and transcript hits, sorted by searchOrder for the results panel
+    searchOrder: 'relevance' as SearchOrder,
     currentMatchIndex: -1 as number, // Index in searchMatches array
+    metadata: {} as LectureMetadata,
+    loadError: null as string | null, // User-facing message when the lecture data could not be loaded
   }),
+  getters: {
+    /**
+     * Returns the video sources the browser reports as playable.
+     *
+     * @param state - The store state object.
+     *
+     * @returns Playable sources in page model order.
+     */
+    playableVideoSources(state): VideoSource[] {
+      return filterPlayableSources(state.videoSources)
+    },
+    /**
+     * Returns the currently selected video source, if it is one of the declared sources.
+     *
+     * @param state - The store state object.
+     *
+     * @returns The selected source or undefined for a single injected source.
+     */
+    currentVideoSource(state): VideoSource | undefined {
+      return state.videoSources.find(source => source.src === state.videoSource)
+    },
+    /**
+     * Returns a key that identifies the lecture in storage, e.g. for per-lecture history and playback progress.
+     * Combines the video file with a hash of the page timestamps and text, so that it stays stable
+     * across sessions and does not change with the selected video quality.
+     *
+     * @param state - The store state object.
+     *
+     * @returns The lecture key.
+     */
+    lectureKey(state): string {
+      const source = state.videoSources[0]?.src ?? videoSource
+      const pages = state.pageModel.map(page => `${page.timestamp}\n${page.text}`).join('\n')
+      return `${source}|${hashString(pages)}`
+    },
+    /**
+     * Returns the search result that was jumped to last.
+     *
+     * @param state - The store state object.
+     *
+     * @returns The current result, or undefined without an active result.
+     */
+    currentMatch(state): SearchResult | undefined {
+      return state.searchMatches[state.currentMatchIndex]
+    },
+    /**
+     * Returns the search results in time order, in which findNext() and findPrev() step through them
+     * regardless of the order of the results panel.
+     *
+     * @param state - The store state object.
+     *
+     * @returns The results sorted by time.
+     */
+    timeOrderedMatches(state): SearchResult[] {
+      return state.searchOrder === 'time' ? state.searchMatches : sortSearchResults([...state.searchMatches], 'time')
+    },
+    /**
+     * Returns a lookup of the page shown at a given time.
+     *
+     * @param state - The store state object.
+     *
+     * @returns Function that maps a time in milliseconds to the 1-based page number, or 1 without pages.
+     */
+    pageNumberAt(state): (time: number) => number {
+      return (time: number) => state.pageModel.length > 0 ? findPageIndexAt(state.pageModel, time) + 1 : 1
+    },
+    /**
+     * Tells whether any page has recorded pen, pointer or zoom actions.
+     *
+     * @param state - The store state object.
+     *
+     * @returns True if recorded events can be played back.
+     */
+    hasRecordedEvents(state): boolean {
+      return state.pageModel.some(page => (page.events?.length ?? 0) > 0)
+    },
+    /**
+     * Counts the search results per page, including transcript hits while the page is shown.
+     *
+     * @param state - The store state object.
+     *
+     * @returns Number of results by 1-based page number; pages without results are missing.
+     */
+    matchCountsByPage(state): Map<number, number> {
+      const counts = new Map<number, number>()
+      for (const match of state.searchMatches) {
+        counts.set(match.page, (counts.get(match.page) ?? 0) + 1)
+      }
+      return counts
+    },
+  },
   actions: {
     async load() {
-      let encodedModel: PageModelEncoded[]
+      let data: unknown
+
+      this.loadError = null
 
       if (isDev) {
         // In development mode, load from the dev.data file
         try {
           const response = await fetch(pageModelDataPath)
-          const data = await response.text()
-
-          encodedModel = JSON.parse(data) as PageModelEncoded[]
+          data = JSON.parse(await response.text())
         }
         catch (error) {
           console.error('Failed to load dev.data file:', error)
-          encodedModel = []
+          this.setLoadError('The lecture data could not be loaded.')
+          return
         }
       }
       else {
         // In production mode, use the injected pageModelData
-        encodedModel = JSON.parse(pageModelData) as PageModelEncoded[]
+        try {
+          data = JSON.parse(pageModelData)
+        }
+        catch (error) {
+          console.error('Failed to parse page model data:', error)
+          this.setLoadError('The lecture data is not valid JSON.')
+          return
+        }
       }
 
+      // Validate the payload, migrating legacy formats to the current envelope
+      const parsed = PageModelDataSchema.safeParse(data)
+      if (!parsed.success) {
+        console.error('Invalid page model data', parsed.error)
+        this.setLoadError(`The lecture data is malformed:\n${z.prettifyError(parsed.error)}`)
+        return
+      }
+
+      const { version: _version, pages, sources, captions, transcript, ...metadata } = parsed.data
+
       // Decode base64 encoded image and text data
-      this.pageModel = encodedModel.map((item: PageModelEncoded): PageModel => ({
-        timestamp: item.time, // time is not base64 encoded
-        image: item.thumb, // PNG format with data URL prefix
-        text: (item.text && item.text.length > 0) ? base64ToUtf8(item.text) : '', // Decode base64 text as UTF-8
-      }))
+      let pageModel: PageModel[]
+      try {
+        pageModel = pages.map((item: PageEncoded): PageModel => ({
+          timestamp: item.time, // time is not base64 encoded
+          image: item.thumb, // PNG format with data URL prefix
+          text: item.text.length > 0 ? base64ToUtf8(item.text) : '', // Decode base64 text as UTF-8
+          // Recorded events are only read, deep reactivity would slow down large recordings
+          ...(item.events ? { events: markRaw(item.events) } : {}),
+        }))
+      }
+      catch (error) {
+        console.error('Failed to decode page text:', error)
+        this.setLoadError('The lecture data contains page text that could not be decoded.')
+        return
+      }
+
+      this.metadata = metadata
+      this.pageModel = pageModel
+
+      // Start with the best playable encoding, falling back to the first declared one
+      this.videoSources = sources ?? []
+      const preferred = pickPreferredSource(this.videoSources) ?? this.videoSources[0]
+      if (preferred) {
+        this.videoSource = preferred.src
+      }
+
+      await Promise.all([
+        useCaptionsStore().setTracks(captions ?? []),
+        this.loadTranscript(transcript),
+      ])
+      await this.buildSearchIndex()
+    },
+    /**
+     * Builds the search index for the loaded pages and transcript in a Web Worker.
+     * Searches issued before the index is ready build it on the main thread instead.
+     */
+    async buildSearchIndex() {
+      const request = ++searchIndexRequest
+      this.searchIndex = null
+
+      try {
+        const index = await buildSearchIndexInWorker(this.pageModel, this.transcript)
+        // Ignore the result if the content changed in the meantime
+        if (request === searchIndexRequest) {
+          this.searchIndex = markRaw(index)
+        }
+      }
+      catch (error) {
+        console.error('Failed to build the search index:', error)
+      }
+    },
+    /**
+     * Loads the transcript from embedded cues or a WebVTT file.
+     * A transcript that fails to load is left empty without failing the lecture.
+     *
+     * @param transcript - The transcript declaration from the page model.
+     */
+    async loadTranscript(transcript?: Transcript) {
+      this.transcript = []
+      if (!transcript) {
+        return
+      }
+
+      try {
+        const cues = Array.isArray(transcript)
+          ? [...transcript].sort((a, b) => a.start - b.start)
+          : await fetchWebVTT(transcript.src)
+        this.transcript = markRaw(cues)
+      }
+      catch (error) {
+        console.error('Failed to load transcript:', error)
+      }
+    },
+    /**
+     * Switches playback to another encoding of the video.
+     * Playback position, rate and play state are kept.
+     *
+     * @param source - The video source to switch to.
+     */
+    selectVideoSource(source: VideoSource) {
+      if (source.src === this.videoSource) {
+        return
+      }
+
+      useMediaControlsStore().prepareSourceChange()
+      this.videoSource = source.src
+    },
+    /**
+     * Resets the loaded content and records a user-facing error message.
+     *
+     * @param message - Description of what went wrong.
+     */
+    setLoadError(message: string) {
+      this.pageModel = []
+      this.searchIndex = null
+      this.metadata = {}
+      this.loadError = message
     },
     setMatchesTotal(total: number) {
       this.matchesTotal = total ?? 0
@@ -67,31 +291,28 @@ export const useContentStore = defineStore('content', {
     setMatchesCurrent(current: number) {
       this.matchesCurrent = current ?? 0
     },
+    /**
+     * Searches the slide text and the transcript and jumps to the first result.
+     * Typos are tolerated if fuzzy search is enabled in the settings.
+     *
+     * @param query - The query, see searchQuery.ts for the syntax.
+     */
     search(query: string) {
       if (!query) {
         return
       }
 
       this.lastQuery = query
-      this.searchMatches = []
+      const results = querySearchIndex(this.ensureSearchIndex(), query, { fuzzy: useSettingsStore().fuzzySearch })
+      this.searchMatches = sortSearchResults(results, this.searchOrder)
       this.currentMatchIndex = -1
 
-      // Search through pageModel text content
-      const searchTerm = query.toLowerCase()
-      this.pageModel.forEach((page, index) => {
-        if (page.text && page.text.toLowerCase().includes(searchTerm)) {
-          this.searchMatches.push(index)
-        }
-      })
-
       this.matchesTotal = this.searchMatches.length
       this.matchesCurrent = 0
 
-      // If we found matches, go to the first one
+      // If we found matches, go to the first one listed
       if (this.matchesTotal > 0) {
-        this.currentMatchIndex = 0
-        this.matchesCurrent = 1
-        this.seekToMatch()
+        this.selectMatch(0)
       }
     },
     cancelSearch() {
@@ -110,33 +331,96 @@ export const useContentStore = defineStore('content', {
         return
       }
 
-      // Move to next match (with wraparound)
-      this.currentMatchIndex = (this.currentMatchIndex + 1) % this.matchesTotal
-      this.matchesCurrent = this.currentMatchIndex + 1
-      this.seekToMatch()
+      // Move to the next match in time order (with wraparound)
+      const position = this.currentMatch ? this.timeOrderedMatches.indexOf(this.currentMatch) : -1
+      this.selectTimeOrderedMatch((position + 1) % this.matchesTotal)
     },
     findPrev() {
       if (!this.lastQuery || this.matchesTotal === 0) {
         return
       }
 
-      // Move to previous match (with wraparound)
-      this.currentMatchIndex = this.currentMatchIndex <= 0
-        ? this.matchesTotal - 1
-        : this.currentMatchIndex - 1
-      this.matchesCurrent = this.currentMatchIndex + 1
+      // Move to the previous match in time order (with wraparound)
+      const position = this.currentMatch ? this.timeOrderedMatches.indexOf(this.currentMatch) : -1
+      this.selectTimeOrderedMatch(position <= 0 ? this.matchesTotal - 1 : position - 1)
+    },
+    /**
+     * Makes the result at a position in time order the current one and seeks to it.
+     *
+     * @param position - Index in timeOrderedMatches.
+     */
+    selectTimeOrderedMatch(position: number) {
+      const match = this.timeOrderedMatches[position]
+      if (!match) {
+        return
+      }
+
+      this.currentMatchIndex = this.searchMatches.indexOf(match)
+      this.matchesCurrent = position + 1
+      this.seekToMatch()
+    },
+    /**
+     * Returns the search index, building it on the main thread if the worker has not finished yet.
+     *
+     * @returns The search index.
+     */
+    ensureSearchIndex(): SearchIndex {
+      if (!this.searchIndex) {
+        this.searchIndex = markRaw(buildSearchIndex(this.pageModel, this.transcript))
+      }
+      return this.searchIndex
+    },
+    /**
+     * Suggests words from the slide text to complete a partially typed word.
+     * Suggests nothing until the worker has built the search index, so that typing never builds it
+     * on the main thread; safe to call from computed properties.
+     *
+     * @param prefix - The beginning of the word.
+     * @param limit - Maximum number of suggestions.
+     *
+     * @returns Matching slide words, most frequent first, or none while the index is being built.
+     */
+    suggestTerms(prefix: string, limit?: number): string[] {
+      return this.searchIndex ? suggestTerms(this.searchIndex, prefix, limit) : []
+    },
+    /**
+     * Changes the order of the search results, keeping the current result selected.
+     *
+     * @param order - The new order.
+     */
+    setSearchOrder(order: SearchOrder) {
+      if (order === this.searchOrder) {
+        return
+      }
+
+      const current = this.searchMatches[this.currentMatchIndex]
+      this.searchOrder = order
+      this.searchMatches = sortSearchResults([...this.searchMatches], order)
+
+      // The position in time order shown as matchesCurrent stays the same
+      if (current) {
+        this.currentMatchIndex = this.searchMatches.indexOf(current)
+      }
+    },
+    /**
+     * Makes the given result the current one and seeks to it.
+     *
+     * @param index - Index in searchMatches.
+     */
+    selectMatch(index: number) {
+      if (index < 0 || index >= this.searchMatches.length) {
+        return
+      }
+
+      this.currentMatchIndex = index
+      this.matchesCurrent = this.timeOrderedMatches.indexOf(this.searchMatches[index]!) + 1
       this.seekToMatch()
     },
     seekToMatch() {
-      if (this.currentMatchIndex >= 0 && this.currentMatchIndex < this.searchMatches.length) {
-        const pageIndex = this.searchMatches[this.currentMatchIndex]
-        if (pageIndex !== undefined && pageIndex >= 0 && pageIndex < this.pageModel.length) {
-          const page = this.pageModel[pageIndex]
-          if (page) {
-            const mediaStore = useMediaControlsStore()
-            mediaStore.seekTo(page.timestamp)
-          }
-        }
+      const match = this.searchMatches[this.currentMatchIndex]
+      if (match) {
+        const mediaStore = useMediaControlsStore()
+        mediaStore.seekTo(match.time)
       }
     },
     clear() {
@@ -14,6 +14,18 @@ interface MediaElementWithListeners extends HTMLMediaElement {
   }
 }
 
+/** Shortest A–B loop that can be set (in milliseconds). */
+const MIN_LOOP_LENGTH = 500
+
+/** A loop ending this close to the end of the video also restarts when the video ends (in milliseconds). */
+const LOOP_END_TOLERANCE = 1000
+
+/**
+ * Duration of one video frame for frame stepping (in milliseconds). Media elements don't expose the frame rate,
+ * so lecture recordings are assumed to use 30 frames per second.
+ */
+export const FRAME_DURATION = 1000 / 30
+
 export const useMediaControlsStore = defineStore('mediaControls', {
   state: () => ({
     volume: 100 as number, // 0..100
@@ -26,7 +38,12 @@ export const useMediaControlsStore = defineStore('mediaControls', {
     totalTime: 0 as number, // In milliseconds
     playbackState: 'paused' as 'paused' | 'playing' | 'ended' | 'error',
     seeking: false as boolean,
+    switchingSource: false as boolean, // True while a new video source loads and state is being restored
     mediaEl: null as HTMLMediaElement | null,
+    loopStart: null as number | null, // A point of the A–B loop in milliseconds
+    loopEnd: null as number | null, // B point of the A–B loop in milliseconds
+    loopRepeat: 0 as number, // How often the loop is played, 0 = until it is cleared
+    loopCount: 0 as number, // How often playback already jumped back to the A point
   }),
   getters: {
     /**
@@ -40,6 +57,16 @@ export const useMediaControlsStore = defineStore('mediaControls', {
     effectiveVolume(state): number {
       return state.muted ? 0 : state.volume
     },
+    /**
+     * Tells whether an A–B loop with both points is set.
+     *
+     * @param state - The store state object.
+     *
+     * @returns True if playback jumps back from the B to the A point.
+     */
+    loopActive(state): boolean {
+      return state.loopStart !== null && state.loopEnd !== null
+    },
   },
   actions: {
     /**
@@ -98,6 +125,37 @@ export const useMediaControlsStore = defineStore('mediaControls', {
         el.currentTime = t
       }
     },
+    /**
+     * Seek relative to the current position, staying within the video.
+     *
+     * @param milliseconds - The offset in milliseconds, negative to seek backwards.
+     */
+    seekBy(milliseconds: number) {
+      const from = this.mediaEl ? this.mediaEl.currentTime * 1000 : this.currentTime
+      let target = Math.max(0, from + milliseconds)
+      if (this.totalTime > 0) {
+        target = Math.min(target, this.totalTime)
+      }
+      this.seekTo(target)
+    },
+    /**
+     * Seek to a fraction of the total duration, e.g. 0.3 for 30 %.
+     *
+     * @param fraction - The position between 0 and 1.
+     */
+    seekToFraction(fraction: number) {
+      if (this.totalTime > 0) {
+        this.seekTo(Math.min(Math.max(fraction, 0), 1) * this.totalTime)
+      }
+    },
+    /**
+     * Move one frame forward or backward, see FRAME_DURATION.
+     *
+     * @param direction - 1 for the next frame, -1 for the previous frame.
+     */
+    stepFrame(direction: 1 | -1) {
+      this.seekBy(direction * FRAME_DURATION)
+    },
     /**
      * Attach an HTMLMediaElement to the store and wire up sync in both directions.
      */
@@ -120,9 +178,11 @@ export const useMediaControlsStore = defineStore('mediaControls', {
 
       // Element -> Store synchronization
       const onTimeUpdate = () => {
-        // Don't update currentTime during seeking to prevent slider jumping
-        if (!this.seeking) {
+        // Don't update currentTime during seeking or source switches to prevent slider jumping
+        if (!this.seeking && !this.switchingSource) {
+          const previous = this.currentTime
           this.currentTime = Math.max(0, Math.floor(el.currentTime * 1000))
+          this.enforceLoop(previous, this.currentTime)
         }
       }
       const onDurationChange = () => {
@@ -135,6 +195,10 @@ export const useMediaControlsStore = defineStore('mediaControls', {
         this.playbackState = 'paused'
       }
       const onEnded = () => {
+        // A loop that lasts until the end of the video starts over instead of stopping
+        if (this.loopActive && this.loopEnd! >= this.totalTime - LOOP_END_TOLERANCE && this.restartLoop()) {
+          return
+        }
         this.playbackState = 'ended'
       }
       const onError = () => {
@@ -157,7 +221,10 @@ export const useMediaControlsStore = defineStore('mediaControls', {
         }
       }
       const onRateChange = () => {
-        this.playbackSpeed = el.playbackRate
+        // Loading a new source resets the rate to the default, which must not override the user's choice
+        if (!this.switchingSource) {
+          this.playbackSpeed = el.playbackRate
+        }
       }
 
       el.addEventListener('timeupdate', onTimeUpdate)
@@ -203,6 +270,46 @@ export const useMediaControlsStore = defineStore('mediaControls', {
       this.mediaEl = null
     },
 
+    /**
+     * Keeps the playback position, rate and play state across a change of the media source.
+     * Call this right before the element's `src` is replaced; the state is restored as soon
+     * as the metadata of the new source has loaded.
+     */
+    prepareSourceChange() {
+      const el = this.mediaEl
+      // A pending restore already applies to whichever source loads next
+      if (!el || this.switchingSource) {
+        return
+      }
+
+      const time = el.currentTime
+      const rate = this.playbackSpeed
+      const resume = !el.paused && !el.ended
+
+      this.switchingSource = true
+
+      const finish = () => {
+        el.removeEventListener('loadedmetadata', onLoadedMetadata)
+        el.removeEventListener('error', finish)
+        this.switchingSource = false
+      }
+      const onLoadedMetadata = () => {
+        try {
+          el.currentTime = time
+        }
+        catch {}
+        el.playbackRate = rate
+        finish()
+
+        if (resume) {
+          void this.play()
+        }
+      }
+
+      el.addEventListener('loadedmetadata', onLoadedMetadata)
+      el.addEventListener('error', finish)
+    },
+
     /**
      * Sets the volume to the specified value, clamped between 0 and 100.
      * Automatically unmutes when volume is changed and updates prevVolume for non-zero values.
@@ -282,6 +389,94 @@ export const useMediaControlsStore = defineStore('mediaControls', {
         this.currentTime = Math.max(0, Math.floor(this.mediaEl.currentTime * 1000))
       }
     },
+    /**
+     * Sets the A point of the loop. A B point that is no longer after it is removed.
+     *
+     * @param time - The time in milliseconds, defaults to the current time.
+     */
+    setLoopStart(time?: number) {
+      this.loopStart = Math.max(0, Math.floor(time ?? this.currentTime))
+      if (this.loopEnd !== null && this.loopEnd - this.loopStart < MIN_LOOP_LENGTH) {
+        this.loopEnd = null
+      }
+      this.loopCount = 0
+    },
+    /**
+     * Sets the B point of the loop, which starts the loop. Without an A point, the loop starts at the beginning.
+     *
+     * @param time - The time in milliseconds, defaults to the current time.
+     *
+     * @returns True if the loop was set, false if the B point is not after the A point.
+     */
+    setLoopEnd(time?: number): boolean {
+      return this.setLoop(this.loopStart ?? 0, time ?? this.currentTime)
+    },
+    /**
+     * Sets both points of the loop, in any order.
+     *
+     * @param start - One end of the loop in milliseconds.
+     * @param end - The other end of the loop in milliseconds.
+     *
+     * @returns True if the loop was set, false if it is too short.
+     */
+    setLoop(start: number, end: number): boolean {
+      const from = Math.max(0, Math.floor(Math.min(start, end)))
+      const to = Math.floor(Math.max(start, end))
+      if (!Number.isFinite(to) || to - from < MIN_LOOP_LENGTH) {
+        return false
+      }
+      this.loopStart = from
+      this.loopEnd = to
+      this.loopCount = 0
+      return true
+    },
+    /**
+     * Removes the loop, playback continues normally.
+     */
+    clearLoop() {
+      this.loopStart = null
+      this.loopEnd = null
+      this.loopCount = 0
+    },
+    /**
+     * Sets how often the loop is played before playback continues.
+     *
+     * @param count - Number of passes, 0 loops until the loop is cleared.
+     */
+    setLoopRepeat(count: number) {
+      this.loopRepeat = Math.max(0, Math.floor(count))
+      this.loopCount = 0
+    },
+    /**
+     * Jumps back to the A point when playback crosses the B point.
+     * Seeking past the B point leaves the loop without jumping back.
+     *
+     * @param previous - The playback time before the update in milliseconds.
+     * @param time - The new playback time in milliseconds.
+     */
+    enforceLoop(previous: number, time: number) {
+      if (this.loopActive && previous < this.loopEnd! && time >= this.loopEnd!) {
+        this.restartLoop()
+      }
+    },
+    /**
+     * Plays the loop again from the A point, unless all passes have been played.
+     *
+     * @returns True if playback jumped back, false if the loop was finished and cleared.
+     */
+    restartLoop(): boolean {
+      if (this.loopRepeat > 0 && this.loopCount + 1 >= this.loopRepeat) {
+        this.clearLoop()
+        return false
+      }
+      this.loopCount++
+      const ended = this.mediaEl?.ended ?? false
+      this.seekTo(this.loopStart ?? 0)
+      if (ended) {
+        void this.play()
+      }
+      return true
+    },
     setPage(page: number) {
       if (this.pageCount <= 0 || !Number.isFinite(page) || page === 0) {
         return false
@@ -0,0 +1,128 @@
+import { type Note, NotesSchema } from '@/schemas/notes'
+import { loadJSON, saveJSON } from '@/utils/storage'
+import { defineStore } from 'pinia'
+import { useContentStore } from './contentStore'
+import { useMediaControlsStore } from './mediaControls'
+
+const STORAGE_KEY = 'app:notes'
+
+/** Used to keep ids unique when several notes are added within the same millisecond. */
+let idCounter = 0
+
+export const useNotesStore = defineStore('notes', {
+  state: () => ({
+    lectures: {} as Record<string, Note[]>,
+  }),
+  getters: {
+    /**
+     * Returns the notes of the current lecture.
+     *
+     * @param state - The store state object.
+     *
+     * @returns The notes, sorted by time.
+     */
+    notes(state): Note[] {
+      return state.lectures[useContentStore().lectureKey] ?? []
+    },
+  },
+  actions: {
+    // Returns true if valid notes were loaded from storage, false otherwise
+    loadFromStorage(): boolean {
+      try {
+        const raw = loadJSON(STORAGE_KEY)
+        if (!raw) {
+          return false
+        }
+        const parsed = NotesSchema.safeParse(raw)
+        if (parsed.success) {
+          this.lectures = parsed.data.lectures
+          return true
+        }
+        else {
+          console.error('Invalid notes in storage, ignoring', parsed.error)
+          return false
+        }
+      }
+      catch (error) {
+        console.error('Failed to load notes from storage:', error)
+        return false
+      }
+    },
+
+    persist() {
+      try {
+        saveJSON(STORAGE_KEY, this.$state)
+      }
+      catch (error) {
+        console.error('Failed to save notes to storage:', error)
+      }
+    },
+
+    /**
+     * Replaces the notes of the current lecture and saves them.
+     *
+     * @param notes - The new notes.
+     */
+    setNotes(notes: Note[]) {
+      const key = useContentStore().lectureKey
+      const { [key]: _previous, ...others } = this.lectures
+
+      this.lectures = notes.length > 0
+        ? { ...others, [key]: [...notes].sort((a, b) => a.time - b.time) }
+        : others
+      this.persist()
+    },
+
+    /**
+     * Adds a note to the current lecture.
+     *
+     * @param text - The note in Markdown; blank notes are ignored.
+     * @param time - The time in milliseconds, defaults to the current playback time.
+     *
+     * @returns The new note, or undefined if the text is blank.
+     */
+    add(text: string, time: number = useMediaControlsStore().currentTime): Note | undefined {
+      const trimmed = text.trim()
+      if (!trimmed) {
+        return undefined
+      }
+
+      const now = Date.now()
+      const note: Note = {
+        id: `${now.toString(36)}-${(idCounter++).toString(36)}`,
+        time: Math.max(0, Math.floor(time)),
+        page: useContentStore().pageNumberAt(time),
+        text: trimmed,
+        createdAt: now,
+        updatedAt: now,
+      }
+
+      this.setNotes([...this.notes, note])
+      return note
+    },
+
+    /**
+     * Changes the text of a note of the current lecture. A blank text deletes the note.
+     *
+     * @param id - The note id.
+     * @param text - The new text in Markdown.
+     */
+    update(id: string, text: string) {
+      const trimmed = text.trim()
+      if (!trimmed) {
+        this.remove(id)
+        return
+      }
+      this.setNotes(this.notes.map(note => note.id === id ? { ...note, text: trimmed, updatedAt: Date.now() } : note))
+    },
+
+    /**
+     * Deletes a note of the current lecture.
+     *
+     * @param id - The note id.
+     */
+    remove(id: string) {
+      this.setNotes(this.notes.filter(note => note.id !== id))
+    },
+  },
+})
@@ -0,0 +1,162 @@
+import { type LectureProgress, PlaybackProgressSchema } from '@/schemas/playbackProgress'
+import { loadJSON, saveJSON } from '@/utils/storage'
+import { defineStore } from 'pinia'
+import { useContentStore } from './contentStore'
+import { useMediaControlsStore } from './mediaControls'
+import { useSettingsStore } from './settings'
+
+const STORAGE_KEY = 'app:playback-progress'
+
+/** Maximum number of lectures with saved progress; the least recently watched are dropped. */
+const MAX_LECTURES = 100
+
+/** Positions closer to the start are not worth resuming (in milliseconds). */
+const MIN_RESUME_TIME = 10_000
+
+/** Lectures stopped closer to the end than this count as completed (in milliseconds). */
+const COMPLETION_MARGIN = 15_000
+
+/**
+ * Seeks to a saved position and selects the saved page.
+ *
+ * @param progress - The saved progress.
+ */
+function seekToProgress(progress: LectureProgress) {
+  const media = useMediaControlsStore()
+  media.seekTo(progress.time)
+  if (progress.page <= useContentStore().pageModel.length) {
+    media.currentPage = progress.page
+  }
+}
+
+export const usePlaybackProgressStore = defineStore('playbackProgress', {
+  state: () => ({
+    lectures: {} as Record<string, LectureProgress>,
+    resumeOffer: null as LectureProgress | null, // Saved position offered after loading, until the user decides
+    resumedAutomatically: false as boolean, // True if the offered position was already applied
+  }),
+  getters: {
+    /**
+     * Returns the saved progress of the current lecture.
+     *
+     * @param state - The store state object.
+     *
+     * @returns The progress, or undefined if the lecture was not watched before.
+     */
+    currentProgress(state): LectureProgress | undefined {
+      return state.lectures[useContentStore().lectureKey]
+    },
+  },
+  actions: {
+    // Returns true if valid progress was loaded from storage, false otherwise
+    loadFromStorage(): boolean {
+      try {
+        const raw = loadJSON(STORAGE_KEY)
+        if (!raw) {
+          return false
+        }
+        const parsed = PlaybackProgressSchema.safeParse(raw)
+        if (parsed.success) {
+          this.lectures = parsed.data.lectures
+          return true
+        }
+        else {
+          console.error('Invalid playback progress in storage, ignoring', parsed.error)
+          return false
+        }
+      }
+      catch (error) {
+        console.error('Failed to load playback progress from storage:', error)
+        return false
+      }
+    },
+
+    persist() {
+      try {
+        saveJSON(STORAGE_KEY, { lectures: this.lectures })
+      }
+      catch (error) {
+        console.error('Failed to save playback progress to storage:', error)
+      }
+    },
+
+    /**
+     * Saves the playback position, speed and page of the current lecture.
+     * A lecture that ended or was stopped just before the end is marked as completed.
+     */
+    save() {
+      const media = useMediaControlsStore()
+      const completed = media.playbackState === 'ended'
+        || (media.totalTime > 0 && media.currentTime >= media.totalTime - COMPLETION_MARGIN)
+
+      const key = useContentStore().lectureKey
+      const { [key]: _previous, ...others } = this.lectures
+      // Re-insert the lecture last, so the oldest lectures come first when trimming
+      const entries = Object.entries(others).slice(-(MAX_LECTURES - 1))
+
+      this.lectures = Object.fromEntries([...entries, [key, {
+        time: Math.max(0, Math.floor(media.currentTime)),
+        speed: media.playbackSpeed,
+        page: Math.max(1, media.currentPage),
+        completed,
+        updatedAt: Date.now(),
+      }]])
+      this.persist()
+    },
+
+    /**
+     * Restores the saved speed of the current lecture and offers to resume at the saved position.
+     * With the `autoResume` setting, the position is applied right away.
+     * Completed lectures and positions near the start are not offered.
+     *
+     * @returns True if a position was offered.
+     */
+    offerResume(): boolean {
+      const progress = this.currentProgress
+      if (!progress) {
+        return false
+      }
+
+      useMediaControlsStore().setPlaybackSpeed(progress.speed)
+
+      if (progress.completed || progress.time < MIN_RESUME_TIME) {
+        return false
+      }
+
+      this.resumeOffer = progress
+      this.resumedAutomatically = useSettingsStore().autoResume
+      if (this.resumedAutomatically) {
+        // Keep the offer open, so that the user can still start over
+        seekToProgress(progress)
+      }
+      return true
+    },
+
+    /**
+     * Seeks to the offered position and closes the offer.
+     */
+    resume() {
+      if (this.resumeOffer && !this.resumedAutomatically) {
+        seekToProgress(this.resumeOffer)
+      }
+      this.dismissOffer()
+    },
+
+    /**
+     * Closes the offer and plays the lecture from the beginning.
+     */
+    startOver() {
+      if (this.resumedAutomatically) {
+        const media = useMediaControlsStore()
+        media.seekTo(0)
+        media.currentPage = 1
+      }
+      this.dismissOffer()
+    },
+
+    dismissOffer() {
+      this.resumeOffer = null
+      this.resumedAutomatically = false
+    },
+  },
+})
@@ -0,0 +1,118 @@
+import { type SearchHistory, SearchHistorySchema } from '@/schemas/searchHistory'
+import { loadJSON, saveJSON } from '@/utils/storage'
+import { defineStore } from 'pinia'
+import { useContentStore } from './contentStore'
+
+const STORAGE_KEY = 'app:search-history'
+
+/** Maximum number of queries kept per list. */
+const MAX_QUERIES = 20
+
+/** Maximum number of lectures with their own history; the least recently searched are dropped. */
+const MAX_LECTURES = 50
+
+/**
+ * Adds a query to the front of a history list, removing an earlier identical entry.
+ *
+ * @param list - The history list, most recent first.
+ * @param query - The query to add.
+ *
+ * @returns The updated list, limited to MAX_QUERIES entries.
+ */
+function pushQuery(list: string[], query: string): string[] {
+  return [query, ...list.filter(entry => entry !== query)].slice(0, MAX_QUERIES)
+}
+
+export const useSearchHistoryStore = defineStore('searchHistory', {
+  state: (): SearchHistory => ({
+    global: [],
+    lectures: {},
+  }),
+  getters: {
+    /**
+     * Returns the recent queries for the current lecture, followed by the other recent queries.
+     *
+     * @param state - The store state object.
+     *
+     * @returns Distinct queries, most relevant first.
+     */
+    recentQueries(state): string[] {
+      const lecture = state.lectures[useContentStore().lectureKey] ?? []
+      return [...new Set([...lecture, ...state.global])]
+    },
+  },
+  actions: {
+    // Returns true if a valid history was loaded from storage, false otherwise
+    loadFromStorage(): boolean {
+      try {
+        const raw = loadJSON(STORAGE_KEY)
+        if (!raw) {
+          return false
+        }
+        const parsed = SearchHistorySchema.safeParse(raw)
+        if (parsed.success) {
+          this.global = parsed.data.global
+          this.lectures = parsed.data.lectures
+          return true
+        }
+        else {
+          console.error('Invalid search history in storage, ignoring', parsed.error)
+          return false
+        }
+      }
+      catch (error) {
+        console.error('Failed to load search history from storage:', error)
+        return false
+      }
+    },
+
+    persist() {
+      try {
+        saveJSON(STORAGE_KEY, this.$state)
+      }
+      catch (error) {
+        console.error('Failed to save search history to storage:', error)
+      }
+    },
+
+    /**
+     * Records a query in the global history and in the history of the current lecture.
+     *
+     * @param query - The query that was searched.
+     */
+    add(query: string) {
+      const trimmed = query.trim()
+      if (!trimmed) {
+        return
+      }
+
+      const key = useContentStore().lectureKey
+      const { [key]: lecture = [], ...others } = this.lectures
+      // Re-insert the lecture last, so the oldest lectures come first when trimming
+      const entries = Object.entries(others).slice(-(MAX_LECTURES - 1))
+
+      this.global = pushQuery(this.global, trimmed)
+      this.lectures = Object.fromEntries([...entries, [key, pushQuery(lecture, trimmed)]])
+      this.persist()
+    },
+
+    /**
+     * Removes a query from all history lists.
+     *
+     * @param query - The query to forget.
+     */
+    remove(query: string) {
+      this.global = this.global.filter(entry => entry !== query)
+      this.lectures = Object.fromEntries(
+        Object.entries(this.lectures).map(([key, list]) => [key, list.filter(entry => entry !== query)]),
+      )
+      this.persist()
+    },
+
+    clear() {
+      this.global = []
+      this.lectures = {}
+      this.persist()
+    },
+  },
+})
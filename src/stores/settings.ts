@@ -1,4 +1,4 @@
-import type { AppSettings } from '@/schemas/settings'
+import type { AppSettings, ShortcutKey } from '@/schemas/settings'
 import { loadJSON, saveJSON } from '@/utils/storage'
 import { AppSettingsSchema } from '@schemas/settings'
 import { defineStore } from 'pinia'
@@ -8,6 +8,14 @@ const STORAGE_KEY = 'app:settings'
 const defaults: AppSettings = {
   sidebarPosition: 'left',
   theme: 'light',
+  captionSize: 'medium',
+  captionBackgroundOpacity: 75,
+  captionPosition: 'bottom',
+  fuzzySearch: false,
+  updateLinkWhilePlaying: false,
+  autoResume: false,
+  showRecordedInk: true,
+  shortcuts: {},
 }
 
 export const useSettingsStore = defineStore('settings', {
@@ -49,6 +57,36 @@ export const useSettingsStore = defineStore('settings', {
       }
     },
 
+    /**
+     * Assigns keys to a keyboard shortcut, replacing its default keys.
+     *
+     * @param id - The shortcut id.
+     * @param keys - The new keys, an empty list leaves the shortcut without keys.
+     */
+    setShortcutKeys(id: string, keys: ShortcutKey[]) {
+      this.shortcuts = { ...this.shortcuts, [id]: keys }
+      this.persist()
+    },
+
+    /**
+     * Restores the default keys of a keyboard shortcut.
+     *
+     * @param id - The shortcut id.
+     */
+    resetShortcut(id: string) {
+      const { [id]: _removed, ...rest } = this.shortcuts
+      this.shortcuts = rest
+      this.persist()
+    },
+
+    /**
+     * Restores the default keys of all keyboard shortcuts.
+     */
+    resetShortcuts() {
+      this.shortcuts = {}
+      this.persist()
+    },
+
     resetToDefaults() {
       Object.assign(this, defaults)
       this.persist()
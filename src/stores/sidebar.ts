@@ -0,0 +1,22 @@
+import { defineStore } from 'pinia'
+
+/**
+ * Panels that can be shown in the sidebar.
+ */
+export type SidebarPanel = 'slides' | 'transcript' | 'search' | 'bookmarks' | 'notes'
+
+export const useSidebarStore = defineStore('sidebar', {
+  state: () => ({
+    activePanel: 'slides' as SidebarPanel,
+  }),
+  actions: {
+    /**
+     * Shows the given panel in the sidebar.
+     *
+     * @param panel - The panel to show.
+     */
+    setPanel(panel: SidebarPanel) {
+      this.activePanel = panel
+    },
+  },
+})
@@ -0,0 +1,69 @@
+/**
+ * Export of the ink annotations of a page to SVG.
+ */
+
+import type { InkStroke } from '@/schemas/annotations'
+import { type FrameSize, HIGHLIGHTER_OPACITY, strokePath, strokeWidth } from '@/utils/ink'
+import { slugify } from '@/utils/text'
+
+/**
+ * Size and background of an exported page.
+ */
+export interface AnnotationsSvgOptions extends FrameSize {
+  /** URL of an image drawn underneath the strokes, e.g. the slide thumbnail. */
+  background?: string
+}
+
+/**
+ * Escapes text for use in an XML attribute value.
+ *
+ * @param value - The attribute value.
+ */
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Converts the strokes of a page to a standalone SVG document.
+ *
+ * @param strokes - The strokes in drawing order.
+ * @param options - Size of the page in pixels and an optional background image.
+ *
+ * @returns The SVG text.
+ */
+export function strokesToSvg(strokes: InkStroke[], options: AnnotationsSvgOptions): string {
+  const { width, height, background } = options
+  const lines = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+  ]
+
+  if (background) {
+    lines.push(`  <image href="${escapeAttribute(background)}" width="${width}" height="${height}" preserveAspectRatio="xMidYMid meet"/>`)
+  }
+  for (const stroke of strokes) {
+    const opacity = stroke.tool === 'highlighter' ? ` stroke-opacity="${HIGHLIGHTER_OPACITY}"` : ''
+    lines.push(
+      `  <path d="${strokePath(stroke.points, options)}" fill="none" stroke="${escapeAttribute(stroke.color)}"`
+      + ` stroke-width="${strokeWidth(stroke, options)}" stroke-linecap="round" stroke-linejoin="round"${opacity}/>`,
+    )
+  }
+  lines.push('</svg>', '')
+
+  return lines.join('\n')
+}
+
+/**
+ * Creates a file name for the exported annotations of a page.
+ *
+ * @param title - The lecture title, if known.
+ * @param page - The 1-based page number.
+ *
+ * @returns The file name, e.g. "signals-and-systems-page-3.svg".
+ */
+export function annotationsFileName(title: string | undefined, page: number): string {
+  return `${slugify(title ?? '') || 'lecture'}-page-${page}.svg`
+}
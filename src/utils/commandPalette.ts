@@ -0,0 +1,92 @@
+import { useTimeFormat } from '@/composables/useTimeFormat'
+import { normalizeText } from './searchQuery'
+
+/**
+ * An action read from the text typed into the command palette, e.g. "12" to go to page 12.
+ */
+export type QuickAction =
+  | { kind: 'page'; page: number }
+  | { kind: 'time'; time: number }
+  | { kind: 'percent'; fraction: number }
+  | { kind: 'speed'; speed: number }
+
+/** A page number, e.g. "12", "p12" or "page 12". */
+const PAGE_PATTERN = /^(?:page|p)?\s*(\d+)$/
+/** A time, e.g. "1:05", "t 1:05:30" or "90s". */
+const TIME_PATTERN = /^(?:time|t)?\s*(\d+(?::\d+)+|\d+s)$/
+/** A position in percent, e.g. "25%". */
+const PERCENT_PATTERN = /^(\d+(?:\.\d+)?)\s*%$/
+/** A playback speed, e.g. "1.5x" or "speed 1.5". */
+const SPEED_PATTERN = /^(?:speed\s*(\d+(?:\.\d+)?)\s*[x×]?|(\d+(?:\.\d+)?)\s*[x×])$/
+
+/**
+ * Reads the actions a typed text stands for. A bare number is read as a page.
+ *
+ * @param query - The typed text.
+ *
+ * @returns The actions, empty if the text is no page, time, percentage or speed.
+ */
+export function parseQuickActions(query: string): QuickAction[] {
+  const text = query.trim().toLowerCase()
+  const actions: QuickAction[] = []
+
+  const page = PAGE_PATTERN.exec(text)
+  if (page) {
+    actions.push({ kind: 'page', page: Number(page[1]) })
+  }
+
+  const time = TIME_PATTERN.exec(text)?.[1]
+  if (time) {
+    const ms = time.endsWith('s') ? Number(time.slice(0, -1)) * 1000 : useTimeFormat().parseHHMMSS(time)
+    if (ms !== null) {
+      actions.push({ kind: 'time', time: ms })
+    }
+  }
+
+  const percent = PERCENT_PATTERN.exec(text)
+  if (percent && Number(percent[1]) <= 100) {
+    actions.push({ kind: 'percent', fraction: Number(percent[1]) / 100 })
+  }
+
+  const speed = SPEED_PATTERN.exec(text)
+  if (speed) {
+    actions.push({ kind: 'speed', speed: Number(speed[1] ?? speed[2]) })
+  }
+
+  return actions
+}
+
+/**
+ * Scores how well a typed text matches a label. The typed characters must appear in
+ * the label in order; consecutive characters and characters at word starts score higher,
+ * so that "np" ranks "Next page" above "Jump to first page".
+ *
+ * @param query - The typed text, spaces are ignored.
+ * @param text - The label to match.
+ *
+ * @returns The score (higher is better), or null if the label does not match.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = normalizeText(query).replace(/\s+/g, '')
+  const haystack = normalizeText(text)
+
+  let score = 0
+  let previous = -2
+  let position = 0
+  for (const char of needle) {
+    const index = haystack.indexOf(char, position)
+    if (index < 0) {
+      return null
+    }
+    score += 1
+    if (index === previous + 1) {
+      score += 2
+    }
+    if (index === 0 || !/[\p{L}\p{N}]/u.test(haystack[index - 1]!)) {
+      score += 3
+    }
+    previous = index
+    position = index + 1
+  }
+  return score
+}
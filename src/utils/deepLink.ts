@@ -0,0 +1,114 @@
+/**
+ * Deep links into a lecture via URL parameters.
+ *
+ * Parameters may be given in the fragment (`#t=42:10&page=17`) or in the query
+ * string (`?t=42:10`); the fragment takes precedence.
+ * - `t` — playback time as `m:ss`, `h:mm:ss` or seconds (e.g. `2530` or `2530.5`)
+ * - `page` — 1-based page number
+ * - `q` — search query
+ */
+
+import { useTimeFormat } from '@/composables/useTimeFormat'
+
+/**
+ * A position in the lecture referenced by a URL.
+ */
+export interface DeepLink {
+  /** Playback time in milliseconds. */
+  time?: number
+  /** 1-based page number. */
+  page?: number
+  /** Search query. */
+  query?: string
+}
+
+/** Parameters used for deep links, replaced when a new link is built. */
+const LINK_PARAMS = ['t', 'page', 'q'] as const
+
+/**
+ * Matches a time given in seconds, optionally with a fraction and an "s" suffix.
+ */
+const SECONDS_PATTERN = /^(\d+(?:\.\d+)?)s?$/
+
+/**
+ * Parses a deep link time value.
+ *
+ * @param value - The time as `m:ss`, `h:mm:ss` or seconds.
+ *
+ * @returns The time in milliseconds, or undefined if the value is invalid.
+ */
+function parseTime(value: string): number | undefined {
+  const seconds = SECONDS_PATTERN.exec(value.trim())
+  if (seconds) {
+    return Math.round(Number(seconds[1]) * 1000)
+  }
+  return useTimeFormat().parseHHMMSS(value) ?? undefined
+}
+
+/**
+ * Reads the deep link parameters from a URL. Invalid values are ignored.
+ *
+ * @param url - The URL, usually `window.location.href`.
+ *
+ * @returns The referenced position; empty if the URL has no deep link.
+ */
+export function parseDeepLink(url: string | URL): DeepLink {
+  const { search, hash } = new URL(url)
+  const fragment = new URLSearchParams(hash.slice(1))
+  const query = new URLSearchParams(search)
+  const param = (name: string) => fragment.get(name) ?? query.get(name)
+
+  const link: DeepLink = {}
+
+  const t = param('t')
+  if (t !== null) {
+    const time = parseTime(t)
+    if (time !== undefined) {
+      link.time = time
+    }
+  }
+
+  const page = param('page')
+  if (page !== null && /^\d+$/.test(page.trim()) && Number(page) > 0) {
+    link.page = Number(page)
+  }
+
+  const q = param('q')?.trim()
+  if (q) {
+    link.query = q
+  }
+
+  return link
+}
+
+/**
+ * Builds a URL that links to the given position. Deep link parameters of the
+ * base URL are replaced; other query and fragment parameters are kept.
+ *
+ * @param url - The base URL, usually `window.location.href`.
+ * @param link - The position to link to.
+ *
+ * @returns The deep link URL.
+ */
+export function buildDeepLink(url: string | URL, link: DeepLink): string {
+  const target = new URL(url)
+  const fragment = new URLSearchParams(target.hash.slice(1))
+  for (const name of LINK_PARAMS) {
+    fragment.delete(name)
+    target.searchParams.delete(name)
+  }
+
+  if (link.time !== undefined) {
+    fragment.set('t', useTimeFormat().formatHHMMSS(link.time))
+  }
+  if (link.page !== undefined) {
+    fragment.set('page', String(link.page))
+  }
+  if (link.query) {
+    fragment.set('q', link.query)
+  }
+
+  // URLSearchParams encodes ':' and spaces, which are valid in fragments and easier to read
+  target.hash = fragment.toString().replace(/%3A/gi, ':').replace(/\+/g, '%20')
+  return target.toString()
+}
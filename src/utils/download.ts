@@ -0,0 +1,21 @@
+/**
+ * Saves text as a file through the browser's download mechanism.
+ *
+ * @param {string} fileName - The suggested file name.
+ * @param {string} content - The file content.
+ * @param {string} [mimeType='text/plain'] - The MIME type of the content.
+ */
+export function downloadText(fileName: string, content: string, mimeType: string = 'text/plain') {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.style.display = 'none'
+
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+
+  // Revoke asynchronously, some browsers start the download only after the click handler returns
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -1,24 +1,46 @@
+import download from '@fluentui/svg-icons/icons/arrow_download_24_regular.svg?raw'
 import fullscreenMaximize from '@fluentui/svg-icons/icons/arrow_maximize_top_left_bottom_right_24_regular.svg?raw'
 import fullscreenMinimize from '@fluentui/svg-icons/icons/arrow_minimize_top_left_bottom_right_24_regular.svg?raw'
+import loop from '@fluentui/svg-icons/icons/arrow_repeat_all_24_regular.svg?raw'
+import loopOff from '@fluentui/svg-icons/icons/arrow_repeat_all_off_24_regular.svg?raw'
 import playbackSpeed from '@fluentui/svg-icons/icons/arrow_rotate_clockwise_24_regular.svg?raw'
+import undo from '@fluentui/svg-icons/icons/arrow_undo_24_regular.svg?raw'
+import bookmark from '@fluentui/svg-icons/icons/bookmark_24_regular.svg?raw'
+import bookmarkAdd from '@fluentui/svg-icons/icons/bookmark_add_24_regular.svg?raw'
 import searchNext from '@fluentui/svg-icons/icons/chevron_down_24_regular.svg?raw'
 import searchPrev from '@fluentui/svg-icons/icons/chevron_up_24_regular.svg?raw'
+import closedCaption from '@fluentui/svg-icons/icons/closed_caption_24_regular.svg?raw'
+import closedCaptionOff from '@fluentui/svg-icons/icons/closed_caption_off_24_regular.svg?raw'
+import deleteIcon from '@fluentui/svg-icons/icons/delete_24_regular.svg?raw'
 import dismiss from '@fluentui/svg-icons/icons/dismiss_24_filled.svg?raw'
+import edit from '@fluentui/svg-icons/icons/edit_24_regular.svg?raw'
+import eraser from '@fluentui/svg-icons/icons/eraser_24_regular.svg?raw'
+import errorCircle from '@fluentui/svg-icons/icons/error_circle_24_regular.svg?raw'
+import hd from '@fluentui/svg-icons/icons/hd_24_regular.svg?raw'
+import highlighter from '@fluentui/svg-icons/icons/highlight_24_regular.svg?raw'
+import history from '@fluentui/svg-icons/icons/history_24_regular.svg?raw'
+import recordedInk from '@fluentui/svg-icons/icons/ink_stroke_24_regular.svg?raw'
+import annotate from '@fluentui/svg-icons/icons/inking_tool_24_regular.svg?raw'
 import keyboard from '@fluentui/svg-icons/icons/keyboard_24_regular.svg?raw'
 import navigation from '@fluentui/svg-icons/icons/navigation_24_filled.svg?raw'
 import next from '@fluentui/svg-icons/icons/next_24_regular.svg?raw'
 import sidebarLeft from '@fluentui/svg-icons/icons/panel_left_24_regular.svg?raw'
 import sidebarRight from '@fluentui/svg-icons/icons/panel_right_24_regular.svg?raw'
 import pause from '@fluentui/svg-icons/icons/pause_24_regular.svg?raw'
+import pen from '@fluentui/svg-icons/icons/pen_24_regular.svg?raw'
+import pictureInPicture from '@fluentui/svg-icons/icons/picture_in_picture_enter_24_regular.svg?raw'
+import pictureInPictureExit from '@fluentui/svg-icons/icons/picture_in_picture_exit_24_regular.svg?raw'
 import play from '@fluentui/svg-icons/icons/play_24_regular.svg?raw'
 import previous from '@fluentui/svg-icons/icons/previous_24_regular.svg?raw'
 import sidebarNone from '@fluentui/svg-icons/icons/rectangle_landscape_24_regular.svg?raw'
 import search from '@fluentui/svg-icons/icons/search_24_filled.svg?raw'
+import share from '@fluentui/svg-icons/icons/share_24_regular.svg?raw'
 import sidebarSettings from '@fluentui/svg-icons/icons/slide_settings_24_regular.svg?raw'
 import speakerLow from '@fluentui/svg-icons/icons/speaker_0_24_regular.svg?raw'
 import speakerMedium from '@fluentui/svg-icons/icons/speaker_1_24_regular.svg?raw'
 import speakerHigh from '@fluentui/svg-icons/icons/speaker_2_24_regular.svg?raw'
 import speakerMute from '@fluentui/svg-icons/icons/speaker_mute_24_regular.svg?raw'
+import searchFuzzy from '@fluentui/svg-icons/icons/text_grammar_wand_24_regular.svg?raw'
 import darkMode from '@fluentui/svg-icons/icons/weather_moon_24_regular.svg?raw'
 import lightMode from '@fluentui/svg-icons/icons/weather_sunny_24_regular.svg?raw'
 
@@ -37,10 +59,28 @@ export const fluentIconMap = {
   'play': play,
   'fullscreen-maximize': fullscreenMaximize,
   'fullscreen-minimize': fullscreenMinimize,
+  'picture-in-picture': pictureInPicture,
+  'picture-in-picture-exit': pictureInPictureExit,
   'playback-speed': playbackSpeed,
   'search': search,
   'search-prev': searchPrev,
   'search-next': searchNext,
+  'search-fuzzy': searchFuzzy,
+  'history': history,
+  'bookmark': bookmark,
+  'bookmark-add': bookmarkAdd,
+  'edit': edit,
+  'delete': deleteIcon,
+  'annotate': annotate,
+  'pen': pen,
+  'highlighter': highlighter,
+  'eraser': eraser,
+  'undo': undo,
+  'download': download,
+  'recorded-ink': recordedInk,
+  'loop': loop,
+  'loop-off': loopOff,
+  'share': share,
   'sidebar-settings': sidebarSettings,
   'sidebar-left': sidebarLeft,
   'sidebar-right': sidebarRight,
@@ -50,6 +90,10 @@ export const fluentIconMap = {
   'speaker-medium': speakerMedium,
   'speaker-high': speakerHigh,
   'keyboard': keyboard,
+  'error': errorCircle,
+  'video-quality': hd,
+  'captions': closedCaption,
+  'captions-off': closedCaptionOff,
 }
 
 /**
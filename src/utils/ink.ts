@@ -0,0 +1,108 @@
+/**
+ * Geometry of ink strokes drawn over the video.
+ * Strokes are stored relative to the video frame and scaled to its size for rendering.
+ */
+
+import type { InkPoint, InkStroke } from '@/schemas/annotations'
+
+/**
+ * Size of the area a stroke is rendered in, in pixels.
+ */
+export interface FrameSize {
+  width: number
+  height: number
+}
+
+/** Stroke width of each drawing tool, as fraction of the frame width. */
+export const TOOL_WIDTHS: Record<InkStroke['tool'], number> = {
+  pen: 0.003,
+  highlighter: 0.02,
+}
+
+/** Opacity of highlighter strokes, so that the slide stays readable underneath. */
+export const HIGHLIGHTER_OPACITY = 0.35
+
+/**
+ * Rounds a relative coordinate, keeping stored strokes small without visible loss.
+ *
+ * @param value - The coordinate between 0 and 1.
+ *
+ * @returns The coordinate clamped to 0..1 with four decimals.
+ */
+export function roundCoordinate(value: number): number {
+  return Math.round(Math.min(1, Math.max(0, value)) * 10000) / 10000
+}
+
+/**
+ * Converts the points of a stroke to SVG path data in frame pixels.
+ * A single point becomes a zero-length line, which round caps render as a dot.
+ *
+ * @param points - The points relative to the frame.
+ * @param size - The frame size.
+ *
+ * @returns The path data, e.g. "M 10 20 L 30 40".
+ */
+export function strokePath(points: InkPoint[], size: FrameSize): string {
+  const coords = points.map(([x, y]) => `${round(x * size.width)} ${round(y * size.height)}`)
+  if (coords.length === 1) {
+    coords.push(coords[0]!)
+  }
+  return coords.map((coord, index) => `${index === 0 ? 'M' : 'L'} ${coord}`).join(' ')
+}
+
+/**
+ * Returns the stroke width in frame pixels.
+ *
+ * @param stroke - The stroke.
+ * @param size - The frame size.
+ */
+export function strokeWidth(stroke: Pick<InkStroke, 'width'>, size: FrameSize): number {
+  return round(stroke.width * size.width)
+}
+
+/**
+ * Tests whether a point touches a stroke, e.g. to erase it.
+ *
+ * @param stroke - The stroke.
+ * @param point - The point relative to the frame.
+ * @param radius - Additional distance in pixels that still counts as touching.
+ * @param size - The frame size.
+ *
+ * @returns True if the point is within the stroke width plus radius.
+ */
+export function isNearStroke(stroke: InkStroke, point: InkPoint, radius: number, size: FrameSize): boolean {
+  const toPixels = ([x, y]: InkPoint): InkPoint => [x * size.width, y * size.height]
+  const target = toPixels(point)
+  const maxDistance = strokeWidth(stroke, size) / 2 + radius
+
+  let previous = toPixels(stroke.points[0]!)
+  for (const current of stroke.points.map(toPixels)) {
+    if (distanceToSegment(target, previous, current) <= maxDistance) {
+      return true
+    }
+    previous = current
+  }
+  return false
+}
+
+/**
+ * Computes the distance of a point to a line segment.
+ *
+ * @param p - The point.
+ * @param a - Start of the segment.
+ * @param b - End of the segment.
+ */
+function distanceToSegment(p: InkPoint, a: InkPoint, b: InkPoint): number {
+  const dx = b[0] - a[0]
+  const dy = b[1] - a[1]
+  const lengthSquared = dx * dx + dy * dy
+  const t = lengthSquared === 0
+    ? 0
+    : Math.min(1, Math.max(0, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSquared))
+
+  return Math.hypot(p[0] - (a[0] + t * dx), p[1] - (a[1] + t * dy))
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10
+}
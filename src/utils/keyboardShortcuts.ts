@@ -1,83 +1,126 @@
 /**
- * Keyboard shortcuts configuration for the application.
+ * Formatting of keyboard shortcuts for display, see useCommands() for the shortcuts themselves.
  */
 
+import type { KeyDef } from '@/composables/useKeyboard'
+
+/**
+ * A command with the labels of its keys, as shown in tooltips.
+ */
 export interface KeyboardShortcut {
   keys: string[]
   description: string
 }
 
-export interface ShortcutCategory {
-  category: string
-  items: KeyboardShortcut[]
+/**
+ * Labels of keys that are not shown as their uppercase character.
+ */
+const keyLabels: Record<string, string> = {
+  ' ': 'Space',
+  'ArrowLeft': '←',
+  'ArrowRight': '→',
+  'ArrowUp': '↑',
+  'ArrowDown': '↓',
+}
+
+/**
+ * Formats a key definition of a command for display, e.g. "Ctrl + Shift + K".
+ * Only modifiers that must be pressed are shown. The keys of a sequence are joined
+ * with "then", and a typed number is shown as "N", e.g. "G then N then Enter".
+ *
+ * @param def - The key definition.
+ *
+ * @returns The label with the modifiers first.
+ */
+export function formatKeyDef(
+  def: Pick<KeyDef, 'key' | 'code' | 'ctrl' | 'shift' | 'alt' | 'meta' | 'prefix' | 'digits'>,
+): string {
+  if (def.prefix?.length || def.digits) {
+    const steps = (def.prefix ?? []).map(formatKeyDef)
+    if (def.digits) {
+      steps.push('N')
+    }
+    return [...steps, formatKeyDef({ ...def, prefix: undefined, digits: undefined })].join(SEQUENCE_SEPARATOR)
+  }
+  const parts: string[] = []
+  if (def.ctrl) {
+    parts.push('Ctrl')
+  }
+  if (def.alt) {
+    parts.push('Alt')
+  }
+  if (def.shift) {
+    parts.push('Shift')
+  }
+  if (def.meta) {
+    parts.push('⌘')
+  }
+  const key = def.key ?? def.code ?? ''
+  parts.push(keyLabels[key] ?? (key.length === 1 ? key.toUpperCase() : key))
+  return parts.join(' + ')
+}
+
+/** Separator between the keys of a sequence in labels. */
+export const SEQUENCE_SEPARATOR = ' then '
+
+/**
+ * Formats a keyboard shortcut for display in tooltips.
+ *
+ * @param shortcut - The keyboard shortcut to format.
+ *
+ * @returns Formatted string for display.
+ *
+ * @example
+ * ```typescript
+ * const formatted = formatShortcutForTooltip({ keys: ['Space', 'K'], description: 'Play/Pause' })
+ * // Returns: "Space or K"
+ * ```
+ */
+export function formatShortcutForTooltip(shortcut: KeyboardShortcut): string {
+  if (!shortcut) { return '' }
+
+  return shortcut.keys.join(' or ')
 }
 
 /**
- * All available keyboard shortcuts organized by category.
+ * Escapes HTML characters to prevent XSS attacks.
+ *
+ * @param text - The text to escape.
+ *
+ * @returns HTML-safe string.
  */
-export const keyboardShortcuts: ShortcutCategory[] = [
-  {
-    category: 'Playback',
-    items: [
-      { keys: ['Space', 'K'], description: 'Play/Pause' },
-      { keys: ['F'], description: 'Toggle fullscreen' },
-    ],
-  },
-  {
-    category: 'Navigation',
-    items: [
-      { keys: ['←'], description: 'Previous page' },
-      { keys: ['→'], description: 'Next page' },
-      { keys: ['Home'], description: 'Jump to first page' },
-      { keys: ['End'], description: 'Jump to last page' },
-    ],
-  },
-  {
-    category: 'Volume',
-    items: [
-      { keys: ['↑'], description: 'Volume up' },
-      { keys: ['↓'], description: 'Volume down' },
-      { keys: ['M'], description: 'Mute/Unmute' },
-    ],
-  },
-  {
-    category: 'Playback Speed',
-    items: [
-      { keys: ['>', 'Shift + >'], description: 'Increase playback speed' },
-      { keys: ['<', 'Shift + <'], description: 'Decrease playback speed' },
-      { keys: ['0', '='], description: 'Normal playback speed' },
-    ],
-  },
-  {
-    category: 'Search',
-    items: [
-      { keys: ['Ctrl + K', '⌘ + K'], description: 'Focus search field' },
-    ],
-  },
-  {
-    category: 'Help',
-    items: [
-      { keys: ['?'], description: 'Show keyboard shortcuts' },
-    ],
-  },
-]
+function escapeHtml(text: string): string {
+  const div = document.createElement('div')
+  div.textContent = text
+  return div.innerHTML
+}
 
 /**
- * Formats a key combination for display.
+ * Formats a keyboard shortcut with HTML kbd elements for rich display.
+ *
+ * @param shortcut - The keyboard shortcut to format.
+ *
+ * @returns Formatted HTML string with kbd elements (safe HTML with dark mode styling).
+ *
+ * @example
+ * ```typescript
+ * const formatted = formatShortcutWithKbd({ keys: ['Space', 'K'], description: 'Play/Pause' })
+ * // Returns: '<kbd class="kbd kbd-xs dark">Space</kbd> or <kbd class="kbd kbd-xs dark">K</kbd>'
+ * ```
  */
-export function formatKey(key: string): string {
-  // Handle special keys
-  const specialKeys: Record<string, string> = {
-    ' ': 'Space',
-    'ArrowLeft': '←',
-    'ArrowRight': '→',
-    'ArrowUp': '↑',
-    'ArrowDown': '↓',
-    'Shift + >': 'Shift + >',
-    'Shift + <': 'Shift + <',
-    'Ctrl + K': 'Ctrl + K',
-    '⌘ + K': '⌘ + K',
-  }
+export function formatShortcutWithKbd(shortcut: KeyboardShortcut): string {
+  if (!shortcut) { return '' }
 
-  return specialKeys[key] || key.toUpperCase()
+  return shortcut.keys
+    .map(key =>
+      // Handle sequences like "G then G" and compound keys like "Ctrl + K"
+      key.split(SEQUENCE_SEPARATOR)
+        .map(step =>
+          step.split(' + ')
+            .map(part => `<kbd class="kbd kbd-sm border-b">${escapeHtml(part.trim())}</kbd>`)
+            .join(' + ')
+        )
+        .join(SEQUENCE_SEPARATOR)
+    )
+    .join(' or ')
 }
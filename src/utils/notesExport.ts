@@ -0,0 +1,94 @@
+/**
+ * Export of personal notes to Markdown and JSON.
+ * Each note links back to the player at its time, see deepLink.ts.
+ */
+
+import { useTimeFormat } from '@/composables/useTimeFormat'
+import type { Note } from '@/schemas/notes'
+import { buildDeepLink } from '@/utils/deepLink'
+import { slugify } from '@/utils/text'
+
+/**
+ * Information about the lecture included in an export.
+ */
+export interface NotesExportOptions {
+  /** The lecture title, if known. */
+  title?: string
+  /** URL of the player, used as base of the links to the notes. */
+  url: string
+}
+
+/**
+ * Builds the link that reopens the player at the time of a note.
+ *
+ * @param note - The note.
+ * @param url - URL of the player.
+ *
+ * @returns The deep link.
+ */
+function linkToNote(note: Note, url: string): string {
+  return buildDeepLink(url, { time: note.time })
+}
+
+/**
+ * Converts notes to a Markdown document with a section per note.
+ * Section headings link to the time of the note.
+ *
+ * @param notes - The notes, sorted by time.
+ * @param options - Lecture title and player URL.
+ *
+ * @returns The Markdown text.
+ */
+export function notesToMarkdown(notes: Note[], options: NotesExportOptions): string {
+  const { formatHHMMSS } = useTimeFormat()
+  const lines = [options.title ? `# Notes: ${options.title}` : '# Lecture notes', '']
+
+  for (const note of notes) {
+    // Parentheses would end the link target early
+    const link = linkToNote(note, options.url).replace(/\(/g, '%28').replace(/\)/g, '%29')
+    lines.push(`## [${formatHHMMSS(note.time)}](${link}) · Page ${note.page}`, '', note.text, '')
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Converts notes to a JSON document for use in other tools.
+ *
+ * @param notes - The notes, sorted by time.
+ * @param options - Lecture title and player URL.
+ *
+ * @returns The formatted JSON text.
+ */
+export function notesToJSON(notes: Note[], options: NotesExportOptions): string {
+  const { formatHHMMSS } = useTimeFormat()
+
+  return JSON.stringify(
+    {
+      title: options.title ?? null,
+      notes: notes.map(note => ({
+        time: note.time,
+        timestamp: formatHHMMSS(note.time),
+        page: note.page,
+        link: linkToNote(note, options.url),
+        text: note.text,
+        createdAt: new Date(note.createdAt).toISOString(),
+        updatedAt: new Date(note.updatedAt).toISOString(),
+      })),
+    },
+    null,
+    2,
+  )
+}
+
+/**
+ * Creates a file name for exported notes from the lecture title.
+ *
+ * @param title - The lecture title, if known.
+ * @param extension - The file extension without dot.
+ *
+ * @returns The file name, e.g. "signals-and-systems-notes.md".
+ */
+export function notesFileName(title: string | undefined, extension: string): string {
+  return `${slugify(title ?? '') || 'lecture'}-notes.${extension}`
+}
@@ -0,0 +1,68 @@
+/**
+ * The Document Picture-in-Picture API, not yet part of the TypeScript DOM types.
+ */
+interface DocumentPictureInPicture {
+  /** The open Picture-in-Picture window, if any. */
+  readonly window: Window | null
+  /** Opens an always-on-top window, which must be requested in response to a user action. */
+  requestWindow(options?: { width?: number; height?: number }): Promise<Window>
+}
+
+/**
+ * Extended interface for windows with the Document Picture-in-Picture API.
+ */
+interface WindowWithDocumentPictureInPicture extends Window {
+  documentPictureInPicture?: DocumentPictureInPicture
+}
+
+/**
+ * Returns the Document Picture-in-Picture API, which can show any content in an
+ * always-on-top window (currently Chromium-based browsers only).
+ *
+ * @returns The API, or undefined if the browser does not support it.
+ */
+function getDocumentPictureInPicture(): DocumentPictureInPicture | undefined {
+  return (window as WindowWithDocumentPictureInPicture).documentPictureInPicture
+}
+
+/**
+ * Checks if the browser can show a video element in a Picture-in-Picture window.
+ *
+ * @returns True if video Picture-in-Picture is supported and enabled, false otherwise.
+ */
+function isVideoPictureInPictureSupported(): boolean {
+  return !!document.pictureInPictureEnabled && 'requestPictureInPicture' in HTMLVideoElement.prototype
+}
+
+/**
+ * Copies the style sheets and the theme of the player into another document, so that
+ * content moved into a Picture-in-Picture window looks the same.
+ *
+ * @param target - The document of the Picture-in-Picture window.
+ */
+function copyStyleSheets(target: Document) {
+  for (const sheet of Array.from(document.styleSheets)) {
+    try {
+      const style = target.createElement('style')
+      style.textContent = Array.from(sheet.cssRules, rule => rule.cssText).join('\n')
+      target.head.append(style)
+    }
+    catch {
+      // Rules of cross-origin style sheets can't be read, link them instead
+      if (sheet.href) {
+        const link = target.createElement('link')
+        link.rel = 'stylesheet'
+        link.href = sheet.href
+        target.head.append(link)
+      }
+    }
+  }
+
+  const theme = document.documentElement.getAttribute('data-theme')
+  if (theme) {
+    target.documentElement.setAttribute('data-theme', theme)
+  }
+  target.documentElement.classList.toggle('dark', document.documentElement.classList.contains('dark'))
+}
+
+export { copyStyleSheets, getDocumentPictureInPicture, isVideoPictureInPictureSupported }
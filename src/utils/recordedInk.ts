@@ -0,0 +1,111 @@
+/**
+ * Playback of the pen, pointer and zoom actions recorded with a lecture.
+ * Computes what is visible on a page at a given time, see RecordedInkLayer.vue.
+ */
+
+import type { InkPoint, InkStroke } from '@/schemas/annotations'
+import type { RecordedEvent, RecordedPoint } from '@/schemas/pageModel'
+
+/** How long the laser pointer stays visible after its last movement, in milliseconds. */
+export const POINTER_LINGER = 1000
+
+/**
+ * A recorded stroke as far as it was drawn at a given time.
+ */
+export type RecordedStroke = Pick<InkStroke, 'tool' | 'color' | 'width' | 'points'>
+
+/**
+ * Region of the page shown in the video, relative to the page.
+ */
+export interface ZoomRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Recorded ink visible on a page at a given time.
+ */
+export interface RecordedInkState {
+  /** Strokes drawn so far, in drawing order. */
+  strokes: RecordedStroke[]
+  /** Position and colour of the laser pointer, or null if it is not shown. */
+  pointer: { point: InkPoint; color: string } | null
+  /** The zoomed region of the page. */
+  zoom: ZoomRegion
+}
+
+/** Region covering the whole page, i.e. no zoom. */
+export const FULL_PAGE: ZoomRegion = { x: 0, y: 0, width: 1, height: 1 }
+
+/**
+ * Counts the points recorded up to a given time using binary search.
+ *
+ * @param points - The points, sorted by time.
+ * @param time - The time in milliseconds.
+ *
+ * @returns The number of points with a time at or before the given time.
+ */
+function countPointsUntil(points: RecordedPoint[], time: number): number {
+  let low = 0
+  let high = points.length
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (points[mid]![2] <= time) {
+      low = mid + 1
+    }
+    else {
+      high = mid
+    }
+  }
+  return low
+}
+
+/**
+ * Replays the recorded events of a page up to a given time.
+ *
+ * @param events - The events of the page, in recording order.
+ * @param time - The playback time in milliseconds.
+ *
+ * @returns The strokes, pointer and zoom visible at that time.
+ */
+export function recordedInkAt(events: RecordedEvent[], time: number): RecordedInkState {
+  let strokes: RecordedStroke[] = []
+  let pointer: RecordedInkState['pointer'] = null
+  let zoom = FULL_PAGE
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'stroke': {
+        const count = countPointsUntil(event.points, time)
+        if (count > 0) {
+          const points = event.points.slice(0, count).map(([x, y]): InkPoint => [x, y])
+          strokes.push({ tool: event.tool, color: event.color, width: event.width, points })
+        }
+        break
+      }
+      case 'pointer': {
+        const count = countPointsUntil(event.points, time)
+        const end = event.points[event.points.length - 1]![2]
+        const current = event.points[count - 1]
+        if (current && time <= end + POINTER_LINGER) {
+          pointer = { point: [current[0], current[1]], color: event.color }
+        }
+        break
+      }
+      case 'zoom':
+        if (event.time <= time) {
+          zoom = { x: event.x, y: event.y, width: event.width, height: event.height }
+        }
+        break
+      case 'clear':
+        if (event.time <= time) {
+          strokes = []
+        }
+        break
+    }
+  }
+
+  return { strokes, pointer, zoom }
+}
@@ -0,0 +1,135 @@
+/**
+ * Types and helpers for searching slide text and transcript cues.
+ */
+
+/**
+ * Where a search result was found.
+ */
+export type SearchSource = 'slide' | 'transcript'
+
+/**
+ * Order of the search results.
+ * - 'relevance': best matches first
+ * - 'time': in playback order
+ */
+export type SearchOrder = 'relevance' | 'time'
+
+/**
+ * Text surrounding a match, split so the match itself can be highlighted.
+ */
+export interface SearchSnippet {
+  before: string
+  match: string
+  after: string
+}
+
+/**
+ * A single search hit.
+ */
+export interface SearchResult {
+  source: SearchSource
+  /** Playback time to seek to, in milliseconds. */
+  time: number
+  /** 1-based number of the page shown at that time, or 0 if there are no pages. */
+  page: number
+  /** Relevance of the match; higher is better. */
+  score: number
+  snippet: SearchSnippet
+}
+
+/**
+ * Minimal page shape needed for searching.
+ */
+export interface SearchablePage {
+  /** Page start time in milliseconds. */
+  timestamp: number
+  text: string
+}
+
+/**
+ * Number of characters of context shown on each side of a match.
+ */
+const SNIPPET_CONTEXT = 40
+
+/**
+ * Finds the page that is shown at the given time, using binary search.
+ *
+ * @param pages - Pages sorted by timestamp.
+ * @param time - The playback time in milliseconds.
+ *
+ * @returns Index of the last page with `timestamp <= time`, or 0 if no page has started yet.
+ */
+export function findPageIndexAt(pages: SearchablePage[], time: number): number {
+  let left = 0
+  let right = pages.length - 1
+  let result = 0
+
+  while (left <= right) {
+    const mid = Math.floor((left + right) / 2)
+    if (pages[mid]!.timestamp <= time) {
+      result = mid
+      left = mid + 1
+    }
+    else {
+      right = mid - 1
+    }
+  }
+
+  return result
+}
+
+/**
+ * Cuts the context around a match, breaking at word boundaries where possible.
+ * Line breaks and repeated whitespace are collapsed, and truncated sides are marked with an ellipsis.
+ *
+ * @param text - The full text.
+ * @param start - Start offset of the match.
+ * @param length - Length of the match.
+ * @param context - Maximum number of context characters on each side.
+ *
+ * @returns The snippet parts.
+ */
+export function createSnippet(text: string, start: number, length: number, context = SNIPPET_CONTEXT): SearchSnippet {
+  const end = start + length
+  let from = Math.max(0, start - context)
+  let to = Math.min(text.length, end + context)
+
+  if (from > 0) {
+    const space = text.indexOf(' ', from)
+    if (space >= 0 && space < start) {
+      from = space + 1
+    }
+  }
+  if (to < text.length) {
+    const space = text.lastIndexOf(' ', to)
+    if (space >= end) {
+      to = space
+    }
+  }
+
+  const collapse = (value: string) => value.replace(/\s+/g, ' ')
+
+  return {
+    before: (from > 0 ? '…' : '') + collapse(text.slice(from, start)).trimStart(),
+    match: collapse(text.slice(start, end)),
+    after: collapse(text.slice(end, to)).trimEnd() + (to < text.length ? '…' : ''),
+  }
+}
+
+/**
+ * Sorts search results in place. Results at the same time are ordered slides first.
+ *
+ * @param results - The results to sort.
+ * @param order - The order to sort by; relevance ties are in time order.
+ *
+ * @returns The sorted results.
+ */
+export function sortSearchResults(results: SearchResult[], order: SearchOrder): SearchResult[] {
+  const sourceRank = (result: SearchResult) => result.source === 'slide' ? 0 : 1
+
+  return results.sort((a, b) =>
+    (order === 'relevance' ? b.score - a.score : 0)
+    || a.time - b.time
+    || sourceRank(a) - sourceRank(b)
+  )
+}
@@ -0,0 +1,395 @@
+/**
+ * Tokenized inverted index over slide text and transcript cues.
+ */
+
+import { createSnippet, findPageIndexAt, type SearchablePage, type SearchResult, type SearchSource } from '@/utils/search'
+import {
+  editDistance,
+  matchesFilters,
+  maxEditDistance,
+  normalizeText,
+  parseQuery,
+  type QueryClause,
+  WORD_PATTERN,
+} from '@/utils/searchQuery'
+import type { Cue } from '@/utils/webvtt'
+
+/**
+ * A word in a document, with its position in the original text.
+ */
+export interface Token {
+  /** Normalized form used for lookups, see normalizeText(). */
+  term: string
+  /** Start offset in the original text. */
+  start: number
+  /** End offset (exclusive) in the original text. */
+  end: number
+}
+
+/**
+ * A searchable unit: the text of one page or one transcript cue.
+ */
+export interface SearchDocument {
+  source: SearchSource
+  /** Playback time in milliseconds. */
+  time: number
+  /** 1-based number of the page shown at that time, or 0 if there are no pages. */
+  page: number
+  text: string
+  tokens: Token[]
+}
+
+/**
+ * Occurrence of a term: the document and the token position within it.
+ */
+export interface Posting {
+  doc: number
+  position: number
+}
+
+/**
+ * The inverted index. Documents are stored in time order.
+ * Only contains plain data, so it can be sent from a worker with structured cloning.
+ */
+export interface SearchIndex {
+  documents: SearchDocument[]
+  terms: Map<string, Posting[]>
+}
+
+/**
+ * Options for querying the index.
+ */
+export interface SearchOptions {
+  /** Also match words with small typos. */
+  fuzzy?: boolean
+}
+
+/**
+ * How a query word must match a term.
+ * - 'substring': anywhere within the term
+ * - 'prefix': at the start of the term
+ * - 'exact': the whole term
+ */
+type MatchMode = 'substring' | 'prefix' | 'exact'
+
+/**
+ * Where a clause matched in a document.
+ */
+interface ClauseHit {
+  /** Token position of the first matched word. */
+  position: number
+  /** Number of matched tokens. */
+  length: number
+  /** Character offset of a single word within its token, or -1 to highlight whole tokens. */
+  offset: number
+  /** Length of that word, used together with offset. */
+  wordLength: number
+}
+
+/**
+ * Accumulated matches of a clause in one document.
+ */
+interface ClauseMatch {
+  /** Quality of the best match (0-1). */
+  quality: number
+  count: number
+  /** The first match in the document. */
+  first: ClauseHit
+}
+
+/**
+ * Splits text into normalized word tokens.
+ *
+ * @param text - The text to tokenize.
+ *
+ * @returns Tokens in text order.
+ */
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    tokens.push({
+      term: normalizeText(match[0]),
+      start: match.index,
+      end: match.index + match[0].length,
+    })
+  }
+  return tokens
+}
+
+/**
+ * Builds the inverted index for the given pages and transcript cues.
+ *
+ * @param pages - Pages sorted by timestamp.
+ * @param cues - Transcript cues sorted by start time.
+ *
+ * @returns The index.
+ */
+export function buildSearchIndex(pages: SearchablePage[], cues: Cue[]): SearchIndex {
+  const documents: Omit<SearchDocument, 'tokens'>[] = [
+    ...pages.map((page, index) => ({
+      source: 'slide' as const,
+      time: page.timestamp,
+      page: index + 1,
+      text: page.text,
+    })),
+    ...cues.map(cue => ({
+      source: 'transcript' as const,
+      time: cue.start,
+      page: pages.length > 0 ? findPageIndexAt(pages, cue.start) + 1 : 0,
+      text: cue.text,
+    })),
+  ]
+  // Array.prototype.sort is stable, so slides stay ahead of cues with the same time
+  documents.sort((a, b) => a.time - b.time)
+
+  const terms = new Map<string, Posting[]>()
+  const indexed = documents.map((document, doc): SearchDocument => {
+    const tokens = tokenize(document.text)
+    tokens.forEach((token, position) => {
+      let postings = terms.get(token.term)
+      if (!postings) {
+        postings = []
+        terms.set(token.term, postings)
+      }
+      postings.push({ doc, position })
+    })
+    return { ...document, tokens }
+  })
+
+  return { documents: indexed, terms }
+}
+
+/**
+ * Rates how well a query word matches a term.
+ *
+ * @param word - The normalized query word.
+ * @param term - The indexed term.
+ * @param mode - How the word must match without typos.
+ * @param fuzzy - Whether terms within the allowed edit distance match as well.
+ *
+ * @returns The match quality from 0 (no match) to 1 (exact match).
+ */
+function matchQuality(word: string, term: string, mode: MatchMode, fuzzy: boolean): number {
+  if (term === word) {
+    return 1
+  }
+  if (mode !== 'exact' && term.startsWith(word)) {
+    return 0.8
+  }
+  if (mode === 'substring' && term.includes(word)) {
+    return 0.6
+  }
+  if (fuzzy) {
+    const max = maxEditDistance(word)
+    if (max > 0) {
+      const distance = editDistance(word, term, max)
+      if (distance <= max) {
+        return 0.6 - 0.2 * distance
+      }
+    }
+  }
+  return 0
+}
+
+/**
+ * Finds all matches of a clause, grouped by document.
+ * A single word may match anywhere within a term. In a phrase, the words must
+ * follow each other; only the last one may be the start of a longer term.
+ *
+ * @param index - The search index.
+ * @param clause - The normalized words of the clause.
+ * @param fuzzy - Whether to allow typos.
+ *
+ * @returns The matches per document index.
+ */
+function findClause(index: SearchIndex, clause: QueryClause, fuzzy: boolean): Map<number, ClauseMatch> {
+  const matches = new Map<number, ClauseMatch>()
+  const single = clause.length === 1
+  const first = clause[0]!
+
+  const record = (doc: number, quality: number, hit: ClauseHit) => {
+    const match = matches.get(doc)
+    if (!match) {
+      matches.set(doc, { quality, count: 1, first: hit })
+      return
+    }
+    match.quality = Math.max(match.quality, quality)
+    match.count++
+    if (hit.position < match.first.position) {
+      match.first = hit
+    }
+  }
+
+  for (const [term, postings] of index.terms) {
+    const firstQuality = matchQuality(first, term, single ? 'substring' : 'exact', fuzzy)
+    if (firstQuality === 0) {
+      continue
+    }
+
+    for (const { doc, position } of postings) {
+      const tokens = index.documents[doc]!.tokens
+      let quality = firstQuality
+
+      for (let i = 1; i < clause.length && quality > 0; i++) {
+        const token = tokens[position + i]
+        const mode = i === clause.length - 1 ? 'prefix' : 'exact'
+        quality = token ? Math.min(quality, matchQuality(clause[i]!, token.term, mode, fuzzy)) : 0
+      }
+      if (quality === 0) {
+        continue
+      }
+
+      // Highlight just the matched part of a term, unless normalization changed its length
+      const token = tokens[position]!
+      const offset = single && quality > 0.5 && token.end - token.start === term.length ? term.indexOf(first) : -1
+      record(doc, quality, { position, length: clause.length, offset, wordLength: first.length })
+    }
+  }
+
+  return matches
+}
+
+/**
+ * Searches the index with a query, see searchQuery.ts for the syntax.
+ * Documents must match all included clauses and none of the excluded ones,
+ * and lie within the page and time ranges of the filters.
+ * Each document yields one result, for its first match.
+ *
+ * Results are ranked by relevance: the match quality of each clause (exact words rank
+ * above prefixes, substrings and typos), with a bonus for phrases and repeated matches.
+ * Results of equal relevance are in time order; slides come before transcript cues.
+ *
+ * @param index - The search index.
+ * @param query - The query.
+ * @param options - Search options.
+ *
+ * @returns The ranked results.
+ */
+export function querySearchIndex(index: SearchIndex, query: string, options: SearchOptions = {}): SearchResult[] {
+  const { include, exclude, filters } = parseQuery(query)
+  if (include.length === 0) {
+    return []
+  }
+
+  const fuzzy = options.fuzzy ?? false
+  const clauseMatches = include.map(clause => findClause(index, clause, fuzzy))
+  // Typos never exclude a document, only actual occurrences do
+  const excluded = new Set(exclude.flatMap(clause => [...findClause(index, clause, false).keys()]))
+
+  const results: (SearchResult & { doc: number })[] = []
+
+  for (const doc of clauseMatches[0]!.keys()) {
+    if (excluded.has(doc) || !clauseMatches.every(matches => matches.has(doc))) {
+      continue
+    }
+
+    const document = index.documents[doc]!
+    if (!matchesFilters(filters, document.page, document.time)) {
+      continue
+    }
+
+    let score = 0
+    let first: ClauseHit | undefined
+    clauseMatches.forEach((matches, i) => {
+      const match = matches.get(doc)!
+      score += match.quality * include[i]!.length + 0.1 * Math.min(match.count - 1, 5)
+      if (!first || match.first.position < first.position) {
+        first = match.first
+      }
+    })
+
+    const startToken = document.tokens[first!.position]!
+    const endToken = document.tokens[first!.position + first!.length - 1]!
+    const start = first!.offset >= 0 ? startToken.start + first!.offset : startToken.start
+    const end = first!.offset >= 0 ? start + first!.wordLength : endToken.end
+
+    results.push({
+      doc,
+      source: document.source,
+      time: document.time,
+      page: document.page,
+      score: Math.round(score * 100) / 100,
+      snippet: createSnippet(document.text, start, end - start),
+    })
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || a.doc - b.doc)
+    .map(({ doc: _doc, ...result }) => result)
+}
+
+/**
+ * Suggests words from the slide text that start with the given prefix.
+ * Diacritics and case are ignored when comparing, but suggestions keep the spelling used on the slides.
+ *
+ * @param index - The search index.
+ * @param prefix - The beginning of a word.
+ * @param limit - Maximum number of suggestions.
+ *
+ * @returns Words that occur on the most slides first; the prefix itself is not suggested.
+ */
+export function suggestTerms(index: SearchIndex, prefix: string, limit = 5): string[] {
+  const normalized = normalizeText(prefix.trim())
+  if (!normalized) {
+    return []
+  }
+
+  const candidates: { word: string; count: number }[] = []
+
+  for (const [term, postings] of index.terms) {
+    if (term === normalized || !term.startsWith(normalized)) {
+      continue
+    }
+    const slidePostings = postings.filter(({ doc }) => index.documents[doc]!.source === 'slide')
+    if (slidePostings.length === 0) {
+      continue
+    }
+    const { doc, position } = slidePostings[0]!
+    const document = index.documents[doc]!
+    const token = document.tokens[position]!
+    candidates.push({
+      word: document.text.slice(token.start, token.end),
+      count: new Set(slidePostings.map(posting => posting.doc)).size,
+    })
+  }
+
+  return candidates
+    .sort((a, b) => b.count - a.count || a.word.localeCompare(b.word))
+    .slice(0, limit)
+    .map(candidate => candidate.word)
+}
+
+/**
+ * Builds the index in a Web Worker, so large lectures do not block the UI.
+ * Falls back to building on the calling thread where workers are unavailable.
+ *
+ * @param pages - Pages sorted by timestamp.
+ * @param cues - Transcript cues sorted by start time.
+ *
+ * @returns The index.
+ */
+export async function buildSearchIndexInWorker(pages: SearchablePage[], cues: Cue[]): Promise<SearchIndex> {
+  // Only send what the index needs, thumbnails would make copying expensive
+  const input = {
+    pages: pages.map(({ timestamp, text }) => ({ timestamp, text })),
+    cues: cues.map(({ start, end, text }) => ({ start, end, text })),
+  }
+
+  if (typeof Worker === 'undefined') {
+    return buildSearchIndex(input.pages, input.cues)
+  }
+
+  const { default: SearchIndexWorker } = await import('@/workers/searchIndex.worker?worker&inline')
+  const worker = new SearchIndexWorker()
+
+  try {
+    return await new Promise<SearchIndex>((resolve, reject) => {
+      worker.onmessage = (e: MessageEvent<SearchIndex>) => resolve(e.data)
+      worker.onerror = (e: ErrorEvent) => reject(new Error(e.message))
+      worker.postMessage(input)
+    })
+  }
+  finally {
+    worker.terminate()
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * Query language and text normalization for the search.
+ *
+ * Syntax:
+ * - `word` — documents must contain the word (terms are combined with AND)
+ * - `"some phrase"` — words must appear in this order, one after another
+ * - `-word` or `-"some phrase"` — documents containing it are excluded
+ * - `page:10` or `page:10-25` — only matches on these pages
+ * - `after:30:00`, `before:1:05:00` — only matches in this time range (`m:ss` or `h:mm:ss`)
+ */
+
+import { useTimeFormat } from '@/composables/useTimeFormat'
+
+/**
+ * A query term: a single word or a phrase of consecutive words.
+ */
+export type QueryClause = string[]
+
+/**
+ * Restrictions on where matches may occur. All bounds are inclusive, except `before`.
+ */
+export interface QueryFilters {
+  /** First page (1-based). */
+  fromPage?: number
+  /** Last page (1-based). */
+  toPage?: number
+  /** Earliest time in milliseconds. */
+  after?: number
+  /** Time in milliseconds that matches must lie before. */
+  before?: number
+}
+
+/**
+ * A parsed search query with normalized words.
+ */
+export interface ParsedQuery {
+  /** Clauses that must all match. */
+  include: QueryClause[]
+  /** Clauses that must not match. */
+  exclude: QueryClause[]
+  filters: QueryFilters
+}
+
+/**
+ * Matches words: runs of letters, combining marks and digits.
+ */
+export const WORD_PATTERN = /[\p{L}\p{M}\p{N}]+/gu
+
+/**
+ * Matches query parts: optionally negated quoted phrases or bare words.
+ * An unterminated quote extends to the end of the query.
+ */
+const QUERY_PART_PATTERN = /(-?)(?:"([^"]*)"?|(\S+))/g
+
+/**
+ * Matches filter tokens, e.g. "page:10-25" or "after:30:00".
+ */
+const FILTER_PATTERN = /^(page|after|before):(\S+)$/i
+
+/**
+ * Matches a page filter value: a single page or an inclusive range.
+ */
+const PAGE_RANGE_PATTERN = /^(\d+)(?:-(\d+))?$/
+
+/**
+ * Applies a filter token to the filters.
+ *
+ * @param filters - The filters to update.
+ * @param name - The filter name, e.g. "page".
+ * @param value - The filter value, e.g. "10-25".
+ *
+ * @returns False if the value is invalid, so that the token is searched as text instead.
+ */
+function applyFilter(filters: QueryFilters, name: string, value: string): boolean {
+  if (name === 'page') {
+    const match = PAGE_RANGE_PATTERN.exec(value)
+    if (!match) {
+      return false
+    }
+    const from = Number(match[1])
+    const to = match[2] !== undefined ? Number(match[2]) : from
+    filters.fromPage = Math.min(from, to)
+    filters.toPage = Math.max(from, to)
+    return true
+  }
+
+  const time = useTimeFormat().parseHHMMSS(value)
+  if (time === null) {
+    return false
+  }
+  filters[name as 'after' | 'before'] = time
+  return true
+}
+
+/**
+ * Checks whether a match at the given page and time passes the filters.
+ *
+ * @param filters - The query filters.
+ * @param page - The 1-based page number, or 0 if unknown.
+ * @param time - The time in milliseconds.
+ *
+ * @returns True if the match is within all given ranges.
+ */
+export function matchesFilters(filters: QueryFilters, page: number, time: number): boolean {
+  return (filters.fromPage === undefined || page >= filters.fromPage)
+    && (filters.toPage === undefined || page <= filters.toPage)
+    && (filters.after === undefined || time >= filters.after)
+    && (filters.before === undefined || time < filters.before)
+}
+
+/**
+ * Normalizes text for matching: removes diacritics, folds case and expands ß,
+ * so that "Überblick", "uberblick" and "UBERBLICK" are equal.
+ *
+ * @param text - The text to normalize.
+ *
+ * @returns The normalized text.
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/ß/g, 'ss')
+}
+
+/**
+ * Splits text into normalized words.
+ *
+ * @param text - The text to split.
+ *
+ * @returns The words in text order.
+ */
+function toWords(text: string): string[] {
+  return Array.from(text.matchAll(WORD_PATTERN), match => normalizeText(match[0]))
+}
+
+/**
+ * Parses a search query. A bare part that contains several words,
+ * e.g. "time-invariant", is treated as a phrase.
+ *
+ * @param query - The raw query.
+ *
+ * @returns The parsed query; clauses without words are dropped.
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = { include: [], exclude: [], filters: {} }
+
+  for (const match of query.matchAll(QUERY_PART_PATTERN)) {
+    const filter = !match[1] && match[3] ? FILTER_PATTERN.exec(match[3]) : null
+    if (filter && applyFilter(parsed.filters, filter[1]!.toLowerCase(), filter[2]!)) {
+      continue
+    }
+
+    const words = toWords(match[2] ?? match[3] ?? '')
+    if (words.length === 0) {
+      continue
+    }
+    if (match[1]) {
+      parsed.exclude.push(words)
+    }
+    else {
+      parsed.include.push(words)
+    }
+  }
+
+  return parsed
+}
+
+/**
+ * Returns how many edits a word may differ by to still match in fuzzy mode.
+ * Short words must match exactly, since almost anything is close to them.
+ *
+ * @param word - The query word.
+ *
+ * @returns The maximum edit distance.
+ */
+export function maxEditDistance(word: string): number {
+  if (word.length >= 8) {
+    return 2
+  }
+  return word.length >= 4 ? 1 : 0
+}
+
+/**
+ * Computes the Levenshtein distance between two strings, giving up once it exceeds a limit.
+ *
+ * @param a - The first string.
+ * @param b - The second string.
+ * @param max - The largest distance of interest.
+ *
+ * @returns The distance, or `max + 1` if it is larger than `max`.
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      const value = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost)
+      current.push(value)
+      rowMin = Math.min(rowMin, value)
+    }
+    if (rowMin > max) {
+      return max + 1
+    }
+    previous = current
+  }
+
+  return Math.min(previous[b.length]!, max + 1)
+}
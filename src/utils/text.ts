@@ -22,3 +22,35 @@ export function base64ToUtf8(base64: string): string {
     return binary
   }
 }
+
+/**
+ * Computes a short, non-cryptographic hash of a string (32-bit FNV-1a).
+ *
+ * @param text - The string to hash.
+ *
+ * @returns The hash as an 8-digit hexadecimal string.
+ */
+export function hashString(text: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+/**
+ * Converts text to a lowercase slug for use in file names, e.g. "Signals & Systems" to "signals-systems".
+ *
+ * @param text - The text to convert.
+ *
+ * @returns The slug, empty if the text contains no letters or digits.
+ */
+export function slugify(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
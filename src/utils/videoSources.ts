@@ -0,0 +1,163 @@
+/**
+ * Utility functions for choosing between multiple encodings of the lecture video.
+ */
+
+import type { VideoSource } from '@/schemas/pageModel'
+
+/**
+ * Lazily created media element used to query codec support.
+ */
+let probeElement: HTMLMediaElement | null = null
+
+/**
+ * Returns a shared video element for `canPlayType` queries.
+ *
+ * @returns The probe element.
+ */
+function getProbe(): HTMLMediaElement {
+  if (!probeElement) {
+    probeElement = document.createElement('video')
+  }
+  return probeElement
+}
+
+/**
+ * Ranks the answers of `canPlayType` so that more confident answers sort first.
+ */
+const playabilityRank: Record<CanPlayTypeResult, number> = {
+  '': 0,
+  'maybe': 1,
+  'probably': 2,
+}
+
+/**
+ * Asks the browser whether it can play the given source.
+ *
+ * @param source - The video source to check.
+ * @param probe - Media element used for the query (defaults to a shared video element).
+ *
+ * @returns The `canPlayType` answer: '', 'maybe' or 'probably'.
+ */
+export function getPlayability(source: VideoSource, probe: HTMLMediaElement = getProbe()): CanPlayTypeResult {
+  try {
+    return probe.canPlayType(source.type)
+  }
+  catch {
+    return ''
+  }
+}
+
+/**
+ * Filters a list of sources down to the ones the browser reports as playable.
+ *
+ * @param sources - All available video sources.
+ * @param probe - Media element used for the query (defaults to a shared video element).
+ *
+ * @returns The playable sources, in their original order.
+ */
+export function filterPlayableSources(
+  sources: VideoSource[],
+  probe: HTMLMediaElement = getProbe(),
+): VideoSource[] {
+  return sources.filter(source => getPlayability(source, probe) !== '')
+}
+
+/**
+ * Picks the source to start playback with.
+ * Prefers sources the browser is most confident about, then the highest resolution and bitrate.
+ *
+ * @param sources - All available video sources.
+ * @param probe - Media element used for the query (defaults to a shared video element).
+ *
+ * @returns The preferred playable source, or undefined if none is playable.
+ */
+export function pickPreferredSource(
+  sources: VideoSource[],
+  probe: HTMLMediaElement = getProbe(),
+): VideoSource | undefined {
+  const ranked = sources
+    .map(source => ({ source, rank: playabilityRank[getPlayability(source, probe)] }))
+    .filter(entry => entry.rank > 0)
+    .sort((a, b) =>
+      (b.rank - a.rank)
+      || ((b.source.height ?? 0) - (a.source.height ?? 0))
+      || ((b.source.bitrate ?? 0) - (a.source.bitrate ?? 0))
+    )
+
+  return ranked[0]?.source
+}
+
+/**
+ * Maps codec identifiers from the MIME `codecs` parameter to display names.
+ */
+const codecNames: [prefix: string, name: string][] = [
+  ['avc1', 'H.264'],
+  ['avc3', 'H.264'],
+  ['hev1', 'HEVC'],
+  ['hvc1', 'HEVC'],
+  ['vp09', 'VP9'],
+  ['vp9', 'VP9'],
+  ['vp8', 'VP8'],
+  ['av01', 'AV1'],
+]
+
+/**
+ * Derives a short codec name from a MIME type.
+ *
+ * @param type - MIME type with optional codecs parameter.
+ *
+ * @returns Codec display name, e.g. 'H.264', 'AV1' or 'WebM'.
+ *
+ * @example
+ * ```typescript
+ * getCodecName('video/webm; codecs="vp09.00.10.08"') // 'VP9'
+ * getCodecName('video/mp4') // 'MP4'
+ * ```
+ */
+export function getCodecName(type: string): string {
+  const codecs = /codecs\s*=\s*"?([^";]+)"?/i.exec(type)?.[1]
+  if (codecs) {
+    const video = codecs.split(',').map(c => c.trim().toLowerCase())
+    for (const codec of video) {
+      const match = codecNames.find(([prefix]) => codec.startsWith(prefix))
+      if (match) {
+        return match[1]
+      }
+    }
+  }
+  const container = type.split(';')[0]?.trim().split('/')[1] ?? ''
+  return container === 'webm' ? 'WebM' : container.toUpperCase()
+}
+
+/**
+ * Builds a human-readable label for a video source, e.g. "1080p · AV1".
+ *
+ * @param source - The video source.
+ *
+ * @returns The explicit label, or one derived from resolution and codec.
+ */
+export function formatSourceLabel(source: VideoSource): string {
+  if (source.label) {
+    return source.label
+  }
+  const parts: string[] = []
+  if (source.height) {
+    parts.push(`${source.height}p`)
+  }
+  parts.push(getCodecName(source.type))
+  return parts.join(' · ')
+}
+
+/**
+ * Formats a bitrate in bits per second for display.
+ *
+ * @param bitrate - Bitrate in bits per second.
+ *
+ * @returns Formatted bitrate, e.g. "2.5 Mbit/s" or "800 kbit/s".
+ */
+export function formatBitrate(bitrate: number): string {
+  if (bitrate >= 1_000_000) {
+    return `${Number((bitrate / 1_000_000).toFixed(1))} Mbit/s`
+  }
+  return `${Math.round(bitrate / 1000)} kbit/s`
+}
@@ -0,0 +1,182 @@
+/**
+ * Utility functions for reading WebVTT caption files.
+ */
+
+/**
+ * A single time-coded text cue.
+ */
+export interface Cue {
+  /** Start time in milliseconds. */
+  start: number
+  /** End time in milliseconds. */
+  end: number
+  /** Plain cue text; lines are separated by '\n'. */
+  text: string
+}
+
+/**
+ * Matches a cue timing line, e.g. "00:01:02.500 --> 00:01:05.000 line:90%".
+ */
+const TIMING_PATTERN = /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{3})\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}[.,]\d{3})/
+
+/**
+ * Named character references allowed in WebVTT cue text.
+ */
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&nbsp;': '\u00A0',
+  '&lrm;': '\u200E',
+  '&rlm;': '\u200F',
+}
+
+/**
+ * Parses a WebVTT timestamp into milliseconds.
+ *
+ * @param value - Timestamp in `hh:mm:ss.ttt` or `mm:ss.ttt` form.
+ *
+ * @returns The time in milliseconds, or NaN if the timestamp is invalid.
+ */
+export function parseTimestamp(value: string): number {
+  const parts = value.trim().replace(',', '.').split(':')
+  if (parts.length < 2 || parts.length > 3) {
+    return NaN
+  }
+  const seconds = Number(parts.pop())
+  const minutes = Number(parts.pop())
+  const hours = parts.length > 0 ? Number(parts.pop()) : 0
+
+  if (![seconds, minutes, hours].every(Number.isFinite)) {
+    return NaN
+  }
+  return Math.round(((hours * 60 + minutes) * 60 + seconds) * 1000)
+}
+
+/**
+ * Removes WebVTT markup (voice, class, ruby and inline timestamp tags) and decodes entities.
+ *
+ * @param text - Raw cue payload.
+ *
+ * @returns The plain cue text.
+ */
+function toPlainText(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(amp|lt|gt|nbsp|lrm|rlm);/g, entity => ENTITIES[entity] ?? entity)
+}
+
+/**
+ * Parses the contents of a WebVTT file into cues.
+ * NOTE, STYLE and REGION blocks as well as cue settings are ignored.
+ *
+ * @param input - The WebVTT file contents.
+ *
+ * @returns The cues sorted by start time.
+ *
+ * @throws Error if the input does not start with the WEBVTT signature.
+ */
+export function parseWebVTT(input: string): Cue[] {
+  const normalized = input.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n')
+
+  if (!/^WEBVTT(?:[ \t]|\n|$)/.test(normalized)) {
+    throw new Error('Missing WEBVTT signature')
+  }
+
+  const cues: Cue[] = []
+
+  // Blocks are separated by one or more blank lines; the first block is the header
+  const blocks = normalized.split(/\n{2,}/).slice(1)
+
+  for (const block of blocks) {
+    const lines = block.split('\n')
+    const timingIndex = lines.findIndex(line => line.includes('-->'))
+    // Skip comments, style and region definitions, which contain no timing line
+    if (timingIndex < 0 || timingIndex > 1) {
+      continue
+    }
+
+    const match = TIMING_PATTERN.exec(lines[timingIndex]!)
+    if (!match) {
+      continue
+    }
+
+    const start = parseTimestamp(match[1]!)
+    const end = parseTimestamp(match[2]!)
+    if (!Number.isFinite(start) || !Number.isFinite(end) || end < start) {
+      continue
+    }
+
+    const text = toPlainText(lines.slice(timingIndex + 1).join('\n')).trim()
+    if (text) {
+      cues.push({ start, end, text })
+    }
+  }
+
+  return cues.sort((a, b) => a.start - b.start)
+}
+
+/**
+ * Returns the cues that are visible at the given time.
+ *
+ * @param cues - Cues sorted by start time.
+ * @param time - The playback time in milliseconds.
+ *
+ * @returns All cues with `start <= time < end`.
+ */
+export function findActiveCues(cues: Cue[], time: number): Cue[] {
+  const active: Cue[] = []
+  for (const cue of cues) {
+    if (cue.start > time) {
+      break
+    }
+    if (time < cue.end) {
+      active.push(cue)
+    }
+  }
+  return active
+}
+
+/**
+ * Finds the cue that was most recently started at the given time, using binary search.
+ *
+ * @param cues - Cues sorted by start time.
+ * @param time - The playback time in milliseconds.
+ *
+ * @returns Index of the last cue with `start <= time`, or -1 if no cue has started yet.
+ */
+export function findCueIndexAt(cues: Cue[], time: number): number {
+  let left = 0
+  let right = cues.length - 1
+  let result = -1
+
+  while (left <= right) {
+    const mid = Math.floor((left + right) / 2)
+    if (cues[mid]!.start <= time) {
+      result = mid
+      left = mid + 1
+    }
+    else {
+      right = mid - 1
+    }
+  }
+
+  return result
+}
+
+/**
+ * Loads and parses a sidecar WebVTT file.
+ *
+ * @param url - Path or URL of the `.vtt` file.
+ *
+ * @returns The parsed cues.
+ *
+ * @throws Error if the request fails or the file is not valid WebVTT.
+ */
+export async function fetchWebVTT(url: string): Promise<Cue[]> {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Failed to load ${url}: ${response.status} ${response.statusText}`)
+  }
+  return parseWebVTT(await response.text())
+}
@@ -61,4 +61,36 @@ declare module 'vue-virtual-scroller' {
   }>
 
   export const RecycleScroller: RecycleScrollerType
+
+  export interface DynamicScrollerProps extends RecycleScrollerProps {
+    minItemSize: number | string
+  }
+
+  export interface DynamicScrollerExpose extends RecycleScrollerExpose {
+    scrollToBottom: () => void
+    forceUpdate: (clear?: boolean) => void
+  }
+
+  export type DynamicScrollerType = DefineComponent<{
+    props: DynamicScrollerProps
+    emits: RecycleScrollerEmits
+    expose: DynamicScrollerExpose
+    slots: SlotsType<RecycleScrollerSlots>
+  }>
+
+  export interface DynamicScrollerItemProps {
+    item: unknown
+    active: boolean
+    watchData?: boolean
+    sizeDependencies?: unknown[] | object | null
+    emitResize?: boolean
+    tag?: string
+  }
+
+  export type DynamicScrollerItemType = DefineComponent<{
+    props: DynamicScrollerItemProps
+  }>
+
+  export const DynamicScroller: DynamicScrollerType
+  export const DynamicScrollerItem: DynamicScrollerItemType
 }
@@ -0,0 +1,12 @@
+/**
+ * Web Worker that builds the search index off the main thread.
+ * Receives the pages and transcript cues and replies with the index.
+ */
+
+import type { SearchablePage } from '@/utils/search'
+import { buildSearchIndex } from '@/utils/searchIndex'
+import type { Cue } from '@/utils/webvtt'
+
+self.onmessage = (e: MessageEvent<{ pages: SearchablePage[]; cues: Cue[] }>) => {
+  self.postMessage(buildSearchIndex(e.data.pages, e.data.cues))
+}
@@ -0,0 +1,83 @@
+import CommandPalette from '@/components/CommandPalette.vue'
+import { registerCommand } from '@/composables/useCommands'
+import { useMediaControlsStore } from '@/stores/mediaControls'
+import { mount, type VueWrapper } from '@vue/test-utils'
+import { createPinia, setActivePinia } from 'pinia'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('@/utils/storage', () => ({
+  loadJSON: vi.fn(),
+  saveJSON: vi.fn(),
+}))
+
+describe('CommandPalette', () => {
+  let wrapper: VueWrapper
+  const bookmark = vi.fn()
+  const unregister: Array<() => void> = []
+
+  beforeEach(async () => {
+    setActivePinia(createPinia())
+    bookmark.mockClear()
+    unregister.push(
+      registerCommand({ id: 'bookmark', label: 'Add bookmark', category: 'Bookmarks', keys: [{ key: 'b' }], handler: bookmark }),
+      registerCommand({ id: 'mute', label: 'Mute/Unmute', category: 'Volume', keys: [{ key: 'm' }], handler: vi.fn() }),
+      registerCommand({
+        id: 'next-frame',
+        label: 'Next frame',
+        category: 'Seeking',
+        keys: [],
+        handler: vi.fn(),
+        when: () => false,
+      }),
+    )
+    wrapper = mount(CommandPalette, { attachTo: document.body })
+    await (wrapper.vm as unknown as { show: () => Promise<void> }).show()
+  })
+
+  afterEach(() => {
+    wrapper.unmount()
+    unregister.splice(0).forEach(fn => fn())
+  })
+
+  const input = () => wrapper.find('input')
+  const options = () => wrapper.findAll('[role="option"]')
+
+  it('should list the available commands with their keys', () => {
+    expect(options().map(o => o.find('span').text())).toEqual(['Add bookmark', 'Mute/Unmute'])
+    expect(options()[0]!.find('kbd').text()).toBe('B')
+    expect(document.activeElement).toBe(input().element)
+  })
+
+  it('should filter commands and run the highlighted one with Enter', async () => {
+    await input().setValue('bkm')
+    expect(options()).toHaveLength(1)
+
+    await input().trigger('keydown', { key: 'Enter' })
+
+    expect(bookmark).toHaveBeenCalled()
+    expect(wrapper.find('dialog').attributes('open')).toBeUndefined()
+  })
+
+  it('should navigate entries with the arrow keys', async () => {
+    await input().trigger('keydown', { key: 'ArrowDown' })
+    expect(options()[1]!.attributes('aria-selected')).toBe('true')
+
+    await input().trigger('keydown', { key: 'ArrowDown' })
+    expect(options()[0]!.attributes('aria-selected')).toBe('true')
+  })
+
+  it('should offer to go to a typed page', async () => {
+    const media = useMediaControlsStore()
+    media.pageCount = 20
+
+    await input().setValue('12')
+
+    expect(options()[0]!.text()).toContain('Go to page 12')
+  })
+
+  it('should close with Escape', async () => {
+    await input().trigger('keydown', { key: 'Escape' })
+
+    expect(wrapper.find('dialog').attributes('open')).toBeUndefined()
+  })
+})
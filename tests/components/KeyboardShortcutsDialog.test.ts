@@ -0,0 +1,51 @@
+import KeyboardShortcutsDialog from '@/components/KeyboardShortcutsDialog.vue'
+import { registerCommand } from '@/composables/useCommands'
+import { mount, type VueWrapper } from '@vue/test-utils'
+import { createPinia, setActivePinia } from 'pinia'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('@/utils/storage', () => ({
+  loadJSON: vi.fn(),
+  saveJSON: vi.fn(),
+}))
+
+describe('KeyboardShortcutsDialog', () => {
+  let wrapper: VueWrapper
+  const unregister: Array<() => void> = []
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    unregister.push(
+      registerCommand({ id: 'play-pause', label: 'Play/Pause', category: 'Playback', keys: [{ key: ' ' }], handler: vi.fn() }),
+      registerCommand({
+        id: 'focus-search',
+        label: 'Focus search field',
+        category: 'Search',
+        keys: [{ key: 'k', ctrl: true }],
+        handler: vi.fn(),
+      }),
+      registerCommand({
+        id: 'first-page',
+        label: 'First page',
+        category: 'Navigation',
+        keys: [{ key: 'g', prefix: [{ key: 'g' }] }],
+        handler: vi.fn(),
+      }),
+    )
+    wrapper = mount(KeyboardShortcutsDialog)
+  })
+
+  afterEach(() => {
+    wrapper.unmount()
+    unregister.splice(0).forEach(fn => fn())
+  })
+
+  const keysOf = (label: string) =>
+    wrapper.findAll('.rounded-lg').find(row => row.text().includes(label))!.findAll('kbd').map(kbd => kbd.text())
+
+  it('should show the keys with the labels of tooltips and the command palette', () => {
+    expect(keysOf('Play/Pause')).toEqual(['Space'])
+    expect(keysOf('Focus search field')).toEqual(['Ctrl', 'K'])
+    expect(keysOf('First page')).toEqual(['G', 'G'])
+  })
+})
@@ -1,5 +1,6 @@
 import MediaControlsBar from '@/components/MediaControlsBar.vue'
 import { useFullscreenControls } from '@/composables/useFullscreenControls'
+import { usePictureInPicture } from '@/composables/usePictureInPicture'
 import { usePlayerControls } from '@/composables/usePlayerControls'
 import { useTimeFormat } from '@/composables/useTimeFormat'
 import { useMediaControlsStore } from '@/stores/mediaControls'
@@ -17,6 +18,10 @@ vi.mock('@/composables/useFullscreenControls', () => ({
   useFullscreenControls: vi.fn(),
 }))
 
+vi.mock('@/composables/usePictureInPicture', () => ({
+  usePictureInPicture: vi.fn(),
+}))
+
 vi.mock('@/composables/usePlayerControls', () => ({
   usePlayerControls: vi.fn(),
 }))
@@ -83,6 +88,7 @@ describe('MediaControlsBar', () => {
   let mockMediaStore: ReturnType<typeof useMediaControlsStore>
   let mockFullscreenControls: ReturnType<typeof useFullscreenControls>
   let mockPlayerControls: ReturnType<typeof usePlayerControls>
+  let mockPictureInPicture: ReturnType<typeof usePictureInPicture>
   let mockTimeFormat: ReturnType<typeof useTimeFormat>
 
   beforeEach(() => {
@@ -130,6 +136,12 @@ describe('MediaControlsBar', () => {
       selectNextPage: vi.fn(),
     } as unknown as ReturnType<typeof usePlayerControls>
 
+    mockPictureInPicture = {
+      isSupported: true,
+      active: ref(false),
+      togglePictureInPicture: vi.fn(),
+    } as unknown as ReturnType<typeof usePictureInPicture>
+
     mockTimeFormat = {
       formatHHMMSS: vi.fn((ms: number) => {
         const seconds = Math.floor(ms / 1000)
@@ -142,6 +154,7 @@ describe('MediaControlsBar', () => {
     vi.mocked(useMediaControlsStore).mockReturnValue(mockMediaStore)
     vi.mocked(useFullscreenControls).mockReturnValue(mockFullscreenControls)
     vi.mocked(usePlayerControls).mockReturnValue(mockPlayerControls)
+    vi.mocked(usePictureInPicture).mockReturnValue(mockPictureInPicture)
     vi.mocked(useTimeFormat).mockReturnValue(mockTimeFormat)
   })
 
@@ -376,6 +389,31 @@ describe('MediaControlsBar', () => {
     })
   })
 
+  describe('picture-in-picture', () => {
+    it('should toggle picture-in-picture when the button is clicked', async () => {
+      const wrapper = mount(MediaControlsBar)
+
+      await wrapper.find('button[aria-label="Picture-in-picture"]').trigger('click')
+
+      expect(mockPictureInPicture.togglePictureInPicture).toHaveBeenCalled()
+    })
+
+    it('should show the button as pressed while active', () => {
+      ;(mockPictureInPicture.active as { value: boolean }).value = true
+      const wrapper = mount(MediaControlsBar)
+
+      const button = wrapper.find('button[aria-label="Exit picture-in-picture"]')
+      expect(button.attributes('aria-pressed')).toBe('true')
+    })
+
+    it('should hide the button without browser support', () => {
+      vi.mocked(usePictureInPicture).mockReturnValue({ ...mockPictureInPicture, isSupported: false })
+      const wrapper = mount(MediaControlsBar)
+
+      expect(wrapper.find('button[aria-label="Picture-in-picture"]').exists()).toBe(false)
+    })
+  })
+
   describe('tooltip functionality', () => {
     it('should provide tooltip formatter for range slider', () => {
       const wrapper = mount(MediaControlsBar)
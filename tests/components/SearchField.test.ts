@@ -0,0 +1,139 @@
+import SearchField from '@/components/SearchField.vue'
+import { useKeyboardShortcuts } from '@/composables/useKeyboardShortcuts'
+import { useContentStore } from '@/stores/contentStore'
+import { useMediaControlsStore } from '@/stores/mediaControls'
+import { useSearchHistoryStore } from '@/stores/searchHistory'
+import { useSettingsStore } from '@/stores/settings'
+import { mount, type VueWrapper } from '@vue/test-utils'
+import { createPinia, setActivePinia } from 'pinia'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { nextTick } from 'vue'
+
+// Mock the storage utilities
+vi.mock('@/utils/storage', () => ({
+  loadJSON: vi.fn(),
+  saveJSON: vi.fn(),
+}))
+
+describe('SearchField', () => {
+  let wrapper: VueWrapper
+  let content: ReturnType<typeof useContentStore>
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    content = useContentStore()
+    content.pageModel = [
+      { timestamp: 1000, text: 'Signale und Systeme', image: '' },
+      { timestamp: 2000, text: 'Signalverarbeitung', image: '' },
+    ]
+    content.ensureSearchIndex()
+    wrapper = mount(SearchField, { attachTo: document.body })
+  })
+
+  afterEach(() => {
+    wrapper.unmount()
+  })
+
+  const input = () => wrapper.find('input[type="search"]')
+  const options = () => wrapper.findAll('[role="option"]')
+
+  async function type(text: string) {
+    await input().trigger('focus')
+    await input().setValue(text)
+  }
+
+  it('should suggest slide words while typing', async () => {
+    await type('sig')
+
+    expect(options().map(o => o.text())).toEqual(['Signale', 'Signalverarbeitung'])
+    expect(input().attributes('aria-expanded')).toBe('true')
+  })
+
+  it('should not suggest slide words before the search index is built', async () => {
+    content.searchIndex = null
+    await type('sig')
+
+    expect(options()).toHaveLength(0)
+    expect(content.searchIndex).toBeNull()
+  })
+
+  it('should navigate suggestions with the arrow keys instead of the matches', async () => {
+    const findNext = vi.spyOn(content, 'findNext')
+    await type('sig')
+
+    await input().trigger('keydown', { key: 'ArrowDown' })
+    await input().trigger('keydown', { key: 'ArrowDown' })
+
+    expect(findNext).not.toHaveBeenCalled()
+    expect(options()[1]!.attributes('aria-selected')).toBe('true')
+
+    await input().trigger('keydown', { key: 'Enter' })
+
+    expect(content.lastQuery).toBe('Signalverarbeitung')
+    expect(options()).toHaveLength(0)
+  })
+
+  it('should navigate matches with the arrow keys once suggestions are closed', async () => {
+    const findNext = vi.spyOn(content, 'findNext')
+    await type('signal')
+    await input().trigger('keydown', { key: 'Enter' })
+
+    await input().trigger('keydown', { key: 'ArrowDown' })
+
+    expect(findNext).toHaveBeenCalledTimes(1)
+  })
+
+  it('should record searches and offer them again', async () => {
+    await type('systeme')
+    await input().trigger('keydown', { key: 'Enter' })
+
+    expect(useSearchHistoryStore().global).toEqual(['systeme'])
+
+    await input().setValue('sys')
+    expect(options()[0]!.text()).toBe('systeme')
+  })
+
+  it('should close suggestions with Escape', async () => {
+    await type('sig')
+
+    await input().trigger('keydown', { key: 'Escape' })
+
+    expect(input().attributes('aria-expanded')).toBe('false')
+  })
+
+  it('should focus the search field with Ctrl+K instead of toggling playback', () => {
+    const media = useMediaControlsStore()
+    const togglePlayPause = vi.spyOn(media, 'togglePlayPause').mockResolvedValue()
+    // Registered before the search field, as in the app
+    wrapper.unmount()
+    const shortcuts = mount({
+      setup() {
+        useKeyboardShortcuts()
+      },
+      template: '<div></div>',
+    })
+    wrapper = mount(SearchField, { attachTo: document.body })
+
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: 'k', ctrlKey: true, cancelable: true }))
+
+    expect(document.activeElement).toBe(input().element)
+    expect(togglePlayPause).not.toHaveBeenCalled()
+
+    shortcuts.unmount()
+  })
+
+  it('should show the keys assigned to focus the search field', async () => {
+    const settings = useSettingsStore()
+    const hint = () => wrapper.findAll('kbd').map(kbd => kbd.text())
+
+    expect(hint()).toEqual(['Ctrl + K', '⌘ + K'])
+
+    settings.setShortcutKeys('focus-search', [{ key: '/', ctrl: false }])
+    await nextTick()
+    expect(hint()).toEqual(['/'])
+
+    settings.setShortcutKeys('focus-search', [])
+    await nextTick()
+    expect(wrapper.find('kbd').exists()).toBe(false)
+  })
+})
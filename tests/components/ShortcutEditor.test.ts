@@ -0,0 +1,82 @@
+import ShortcutEditor from '@/components/ShortcutEditor.vue'
+import { registerCommand } from '@/composables/useCommands'
+import { useSettingsStore } from '@/stores/settings'
+import { mount, type VueWrapper } from '@vue/test-utils'
+import { createPinia, setActivePinia } from 'pinia'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { nextTick } from 'vue'
+
+vi.mock('@/utils/storage', () => ({
+  loadJSON: vi.fn(),
+  saveJSON: vi.fn(),
+}))
+
+describe('ShortcutEditor', () => {
+  let wrapper: VueWrapper
+  const unregister: Array<() => void> = []
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    unregister.push(
+      registerCommand({
+        id: 'palette',
+        label: 'Command palette',
+        category: 'General',
+        keys: [{ code: 'KeyP', ctrl: true, shift: true }, { code: 'KeyP', meta: true, shift: true }],
+        handler: vi.fn(),
+      }),
+      registerCommand({ id: 'bookmark', label: 'Add bookmark', category: 'Bookmarks', keys: [{ key: 'b' }], handler: vi.fn() }),
+      registerCommand({
+        id: 'jump-to-percent',
+        label: 'Jump to 10% to 90%',
+        category: 'Seeking',
+        keys: [{ key: '1' }, { key: '2' }],
+        handler: vi.fn(),
+        remappable: false,
+      }),
+    )
+    wrapper = mount(ShortcutEditor, { attachTo: document.body })
+  })
+
+  afterEach(() => {
+    wrapper.unmount()
+    unregister.splice(0).forEach(fn => fn())
+  })
+
+  const changeButton = (label: string) =>
+    wrapper.findAll('.rounded-lg').find(row => row.text().includes(label))!.find('button')
+
+  it('should keep the other keys defined by code when taking over one of them', async () => {
+    const settings = useSettingsStore()
+
+    await changeButton('Add bookmark').trigger('click')
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: 'P', code: 'KeyP', ctrlKey: true, shiftKey: true }))
+    await nextTick()
+
+    expect(wrapper.find('[role="alert"]').text()).toContain('Command palette')
+
+    await wrapper.find('[role="alert"] .btn-warning').trigger('click')
+
+    expect(settings.shortcuts.palette).toEqual([{ code: 'KeyP', meta: true, shift: true }])
+    expect(settings.shortcuts.bookmark).toEqual([
+      { key: 'P', code: 'KeyP', ctrl: true, shift: true, alt: false, meta: false },
+    ])
+  })
+
+  it('should not change the keys of commands that cannot be remapped', async () => {
+    const settings = useSettingsStore()
+
+    await changeButton('Add bookmark').trigger('click')
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: '1', code: 'Digit1' }))
+    await nextTick()
+
+    expect(wrapper.find('[role="alert"]').text()).toContain('Jump to 10% to 90%')
+
+    await wrapper.find('[role="alert"] .btn-warning').trigger('click')
+
+    expect(settings.shortcuts['jump-to-percent']).toBeUndefined()
+    expect(settings.shortcuts.bookmark).toEqual([
+      { key: '1', code: 'Digit1', ctrl: false, shift: false, alt: false, meta: false },
+    ])
+  })
+})
@@ -0,0 +1,97 @@
+import ThumbnailBar from '@/components/ThumbnailBar.vue'
+import { useContentStore } from '@/stores/contentStore'
+import { useMediaControlsStore } from '@/stores/mediaControls'
+import { mount, type VueWrapper } from '@vue/test-utils'
+import { createPinia, setActivePinia } from 'pinia'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { defineComponent, h, nextTick } from 'vue'
+
+vi.mock('@/utils/storage', () => ({
+  loadJSON: vi.fn(),
+  saveJSON: vi.fn(),
+}))
+
+const scrollToItem = vi.fn()
+
+/** Renders all items, since jsdom has no layout for the virtual list. */
+const RecycleScroller = defineComponent({
+  props: { items: { type: Array<{ key: string }>, required: true } },
+  setup(props, { slots, expose }) {
+    expose({ scrollToItem })
+    return () => h('div', props.items.map(item => slots.default?.({ item })))
+  },
+})
+
+describe('ThumbnailBar', () => {
+  let wrapper: VueWrapper
+  let content: ReturnType<typeof useContentStore>
+  let media: ReturnType<typeof useMediaControlsStore>
+
+  beforeEach(async () => {
+    vi.stubGlobal('ResizeObserver', class {
+      observe() {}
+      disconnect() {}
+    })
+    setActivePinia(createPinia())
+    scrollToItem.mockClear()
+    content = useContentStore()
+    media = useMediaControlsStore()
+    content.pageModel = [
+      { timestamp: 0, text: 'Signale und Systeme', image: '' },
+      { timestamp: 1000, text: 'Fourier-Reihe', image: '' },
+      { timestamp: 2000, text: 'Abtastung von Signalen', image: '' },
+    ]
+    content.transcript = [{ start: 2500, end: 2900, text: 'Das Signal wird abgetastet' }]
+    wrapper = mount(ThumbnailBar, { global: { components: { RecycleScroller } } })
+    await nextTick()
+  })
+
+  afterEach(() => {
+    wrapper.unmount()
+    vi.unstubAllGlobals()
+  })
+
+  const items = () => wrapper.findAll('.thumb-item')
+  const itemOf = (pageNumber: number) => items().find(item => item.find('.label').text() === `${pageNumber}`)!
+
+  it('should show the number of matches per page while a search is active', async () => {
+    expect(wrapper.find('.toggle').exists()).toBe(false)
+
+    content.search('signal')
+    await nextTick()
+
+    // The transcript hit counts for the page shown at that time
+    expect(itemOf(1).find('.match-badge').text()).toBe('1')
+    expect(itemOf(2).find('.match-badge').exists()).toBe(false)
+    expect(itemOf(3).find('.match-badge').text()).toBe('2')
+    expect(wrapper.text()).toContain('2 / 3')
+  })
+
+  it('should mark the page of the current match', async () => {
+    content.search('signal')
+    content.findNext()
+    await nextTick()
+
+    const page = content.currentMatch!.page
+    expect(items().filter(item => item.classes('current-match')).map(item => item.find('.label').text()))
+      .toEqual([`${page}`])
+    expect(itemOf(page).classes('selected')).toBe(true)
+  })
+
+  it('should keep the current page selected when only matching pages are shown', async () => {
+    content.search('signal')
+    content.selectMatch(content.searchMatches.findIndex(match => match.page === 3))
+    await nextTick()
+    scrollToItem.mockClear()
+
+    await wrapper.find('.toggle').setValue(true)
+    await nextTick()
+
+    expect(items().map(item => item.find('.label').text())).toEqual(['1', '3'])
+    expect(media.currentPage).toBe(3)
+    expect(itemOf(3).classes('selected')).toBe(true)
+    expect(itemOf(3).attributes('aria-current')).toBe('page')
+    // Index of the current page in the filtered list
+    expect(scrollToItem).toHaveBeenLastCalledWith(1)
+  })
+})
@@ -0,0 +1,120 @@
+import TranscriptPanel from '@/components/TranscriptPanel.vue'
+import { useContentStore } from '@/stores/contentStore'
+import { useMediaControlsStore } from '@/stores/mediaControls'
+import { mount, type VueWrapper } from '@vue/test-utils'
+import { createPinia, setActivePinia } from 'pinia'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { defineComponent, h, nextTick } from 'vue'
+
+vi.mock('@/utils/storage', () => ({
+  loadJSON: vi.fn(),
+  saveJSON: vi.fn(),
+}))
+
+const scrollToItem = vi.fn()
+
+/** Renders all items, since jsdom has no layout for the virtual list. */
+const DynamicScroller = defineComponent({
+  props: { items: { type: Array<{ id: number }>, required: true } },
+  setup(props, { slots, expose }) {
+    expose({ scrollToItem })
+    return () => h('div', { class: 'scroller' }, props.items.map((item, index) => slots.default?.({ item, index, active: true })))
+  },
+})
+
+const DynamicScrollerItem = defineComponent({
+  setup(_props, { slots }) {
+    return () => h('div', slots.default?.())
+  },
+})
+
+describe('TranscriptPanel', () => {
+  let wrapper: VueWrapper
+  let media: ReturnType<typeof useMediaControlsStore>
+
+  beforeEach(async () => {
+    vi.useFakeTimers()
+    setActivePinia(createPinia())
+    scrollToItem.mockClear()
+    media = useMediaControlsStore()
+    useContentStore().transcript = [
+      { start: 0, end: 2000, text: 'Willkommen' },
+      { start: 2000, end: 4000, text: 'Heute geht es um Signale' },
+      { start: 4000, end: 6000, text: 'und Systeme' },
+    ]
+    wrapper = mount(TranscriptPanel, { global: { components: { DynamicScroller, DynamicScrollerItem } } })
+    await nextTick()
+  })
+
+  afterEach(() => {
+    wrapper.unmount()
+    vi.useRealTimers()
+  })
+
+  const cues = () => wrapper.findAll('.cue')
+  const followButton = () => wrapper.find('button')
+
+  async function playTo(time: number) {
+    media.currentTime = time
+    await nextTick()
+  }
+
+  it('should highlight the cue at the playback position and follow it', async () => {
+    await playTo(2500)
+
+    expect(cues().map(cue => cue.attributes('aria-current'))).toEqual([undefined, 'true', undefined])
+    expect(scrollToItem).toHaveBeenLastCalledWith(1)
+  })
+
+  it('should seek to a cue when it is clicked', async () => {
+    await cues()[2]!.trigger('click')
+
+    expect(media.currentTime).toBe(4000)
+    expect(cues()[2]!.attributes('aria-current')).toBe('true')
+  })
+
+  it('should pause following while the user scrolls and resume after a while', async () => {
+    await wrapper.trigger('wheel')
+    scrollToItem.mockClear()
+    await playTo(2500)
+
+    expect(scrollToItem).not.toHaveBeenCalled()
+    expect(followButton().exists()).toBe(true)
+
+    vi.advanceTimersByTime(5000)
+    await nextTick()
+
+    expect(scrollToItem).toHaveBeenLastCalledWith(1)
+    expect(followButton().exists()).toBe(false)
+  })
+
+  it('should pause following while the scrollbar is dragged', async () => {
+    await wrapper.find('.scroller').trigger('pointerdown')
+    scrollToItem.mockClear()
+
+    // Still dragging after the resume delay
+    vi.advanceTimersByTime(4000)
+    await wrapper.find('.scroller').trigger('scroll')
+    vi.advanceTimersByTime(4000)
+    await playTo(2500)
+
+    expect(scrollToItem).not.toHaveBeenCalled()
+
+    window.dispatchEvent(new Event('pointerup'))
+    vi.advanceTimersByTime(5000)
+    await nextTick()
+
+    expect(scrollToItem).toHaveBeenLastCalledWith(1)
+  })
+
+  it('should jump back to the current cue with the button', async () => {
+    await wrapper.trigger('wheel')
+    await playTo(4500)
+    scrollToItem.mockClear()
+
+    await followButton().trigger('click')
+
+    expect(scrollToItem).toHaveBeenCalledWith(2)
+    expect(followButton().exists()).toBe(false)
+  })
+})
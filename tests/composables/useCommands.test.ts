@@ -0,0 +1,89 @@
+import { type Command, registerCommand, useCommand, useCommands } from '@/composables/useCommands'
+import { useSettingsStore } from '@/stores/settings'
+import { createPinia, setActivePinia } from 'pinia'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { effectScope } from 'vue'
+
+vi.mock('@/utils/storage', () => ({
+  loadJSON: vi.fn(),
+  saveJSON: vi.fn(),
+}))
+
+describe('useCommands', () => {
+  const unregister: Array<() => void> = []
+
+  function register(command: Partial<Command> & Pick<Command, 'id'>) {
+    unregister.push(registerCommand({
+      label: command.id,
+      category: 'Playback',
+      keys: [],
+      handler: vi.fn(),
+      ...command,
+    }))
+  }
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+  })
+
+  afterEach(() => {
+    unregister.splice(0).forEach(fn => fn())
+  })
+
+  it('should list registered commands until they are removed', () => {
+    const { commands } = useCommands()
+    register({ id: 'play-pause' })
+
+    expect(commands.value.map(c => c.id)).toEqual(['play-pause'])
+
+    unregister.splice(0).forEach(fn => fn())
+    expect(commands.value).toEqual([])
+  })
+
+  it('should remove commands registered in a scope when the scope stops', () => {
+    const { findCommand } = useCommands()
+    const scope = effectScope()
+    scope.run(() => useCommand({ id: 'focus-search', label: 'Focus search field', category: 'Search', keys: [], handler: vi.fn() }))
+
+    expect(findCommand('focus-search')).toBeDefined()
+
+    scope.stop()
+    expect(findCommand('focus-search')).toBeUndefined()
+  })
+
+  it('should group commands in the order of the categories', () => {
+    register({ id: 'help', category: 'Help' })
+    register({ id: 'mute', category: 'Volume' })
+    register({ id: 'play-pause', category: 'Playback' })
+    register({ id: 'unmute', category: 'Volume' })
+
+    expect(useCommands().categories.value.map(group => [group.category, group.commands.map(c => c.id)])).toEqual([
+      ['Playback', ['play-pause']],
+      ['Volume', ['mute', 'unmute']],
+      ['Help', ['help']],
+    ])
+  })
+
+  it('should find commands by id or label', () => {
+    register({ id: 'bookmark', label: 'Add bookmark' })
+    const { findCommand } = useCommands()
+
+    expect(findCommand('bookmark')?.label).toBe('Add bookmark')
+    expect(findCommand('add Bookmark')?.id).toBe('bookmark')
+    expect(findCommand('unknown')).toBeUndefined()
+  })
+
+  it('should use the keys assigned by the user', () => {
+    register({ id: 'bookmark', keys: [{ key: 'b', repeat: false }] })
+    register({ id: 'jump', keys: [{ key: '1' }], keyLabels: ['1–9'] })
+    const { bindings, findCommand, keyLabelsOf } = useCommands()
+
+    expect(keyLabelsOf(findCommand('bookmark')!)).toEqual(['B'])
+    expect(keyLabelsOf(findCommand('jump')!)).toEqual(['1–9'])
+
+    useSettingsStore().setShortcutKeys('bookmark', [{ key: 'n', ctrl: true }])
+
+    expect(keyLabelsOf(findCommand('bookmark')!)).toEqual(['Ctrl + N'])
+    expect(bindings.value.find(b => b.id === 'bookmark')?.keys).toEqual([{ key: 'n', ctrl: true, repeat: false }])
+  })
+})
@@ -0,0 +1,139 @@
+import { useDeepLink } from '@/composables/useDeepLink'
+import { useContentStore } from '@/stores/contentStore'
+import { useMediaControlsStore } from '@/stores/mediaControls'
+import { useSettingsStore } from '@/stores/settings'
+import { createPinia, setActivePinia } from 'pinia'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { nextTick } from 'vue'
+
+const BASE = 'https://example.org/lecture.html'
+
+describe('useDeepLink', () => {
+  let content: ReturnType<typeof useContentStore>
+  let media: ReturnType<typeof useMediaControlsStore>
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    content = useContentStore()
+    media = useMediaControlsStore()
+
+    content.pageModel = [
+      { timestamp: 0, text: 'Intro', thumb: '' },
+      { timestamp: 60000, text: 'Fourier series', thumb: '' },
+      { timestamp: 120000, text: 'Fourier transform', thumb: '' },
+    ] as unknown as typeof content.pageModel
+    vi.spyOn(content, 'search').mockImplementation(() => {})
+    vi.spyOn(media, 'seekTo')
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    history.replaceState(null, '', '/')
+  })
+
+  describe('applyDeepLink', () => {
+    it('returns false without a deep link', () => {
+      const { applyDeepLink } = useDeepLink()
+
+      expect(applyDeepLink(BASE)).toBe(false)
+      expect(content.search).not.toHaveBeenCalled()
+      expect(media.seekTo).not.toHaveBeenCalled()
+    })
+
+    it('seeks to the linked time', () => {
+      const { applyDeepLink } = useDeepLink()
+
+      expect(applyDeepLink(`${BASE}#t=1:30`)).toBe(true)
+      expect(media.seekTo).toHaveBeenCalledWith(90000)
+    })
+
+    it('selects the linked page even when the thumbnail bar has not set the page count', () => {
+      const { applyDeepLink } = useDeepLink()
+
+      applyDeepLink(`${BASE}#page=3`)
+
+      expect(media.pageCount).toBe(3)
+      expect(media.currentPage).toBe(3)
+      expect(media.seekTo).toHaveBeenCalledWith(120000)
+    })
+
+    it('searches first and lets an explicit time win', () => {
+      const { applyDeepLink } = useDeepLink()
+
+      applyDeepLink(`${BASE}#q=fourier&page=2&t=0:05`)
+
+      expect(content.search).toHaveBeenCalledWith('fourier')
+      expect(media.seekTo).toHaveBeenCalledTimes(1)
+      expect(media.seekTo).toHaveBeenLastCalledWith(5000)
+    })
+  })
+
+  describe('linkAtCurrentTime', () => {
+    it('links to the current playback position', () => {
+      history.replaceState(null, '', '/lecture.html#q=fourier')
+      media.currentTime = 125400
+      const { linkAtCurrentTime } = useDeepLink()
+
+      expect(linkAtCurrentTime()).toBe(`${window.location.origin}/lecture.html#t=2:05`)
+    })
+  })
+
+  describe('copyLinkAtCurrentTime', () => {
+    it('writes the link to the clipboard', async () => {
+      const writeText = vi.fn().mockResolvedValue(undefined)
+      vi.stubGlobal('navigator', { ...navigator, clipboard: { writeText } })
+      media.currentTime = 60000
+      const { copyLinkAtCurrentTime } = useDeepLink()
+
+      await expect(copyLinkAtCurrentTime()).resolves.toBe(true)
+      expect(writeText).toHaveBeenCalledWith(expect.stringMatching(/#t=1:00$/))
+      vi.unstubAllGlobals()
+    })
+
+    it('returns false if the clipboard is unavailable', async () => {
+      vi.stubGlobal('navigator', { ...navigator, clipboard: undefined })
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const { copyLinkAtCurrentTime } = useDeepLink()
+
+      await expect(copyLinkAtCurrentTime()).resolves.toBe(false)
+      vi.unstubAllGlobals()
+    })
+  })
+
+  describe('syncUrlWithPlayback', () => {
+    it('updates the address while playing if enabled', async () => {
+      const replaceState = vi.spyOn(history, 'replaceState')
+      const { syncUrlWithPlayback } = useDeepLink()
+      syncUrlWithPlayback()
+
+      media.playbackState = 'playing'
+      media.currentTime = 5000
+      await nextTick()
+      expect(replaceState).not.toHaveBeenCalled()
+
+      useSettingsStore().updateLinkWhilePlaying = true
+      await nextTick()
+      expect(replaceState).toHaveBeenLastCalledWith(null, '', expect.stringMatching(/#t=0:05$/))
+
+      media.currentTime = 5500
+      await nextTick()
+      expect(replaceState).toHaveBeenCalledTimes(1)
+
+      media.currentTime = 6000
+      await nextTick()
+      expect(replaceState).toHaveBeenCalledTimes(2)
+    })
+
+    it('does not update the address while paused', async () => {
+      const replaceState = vi.spyOn(history, 'replaceState')
+      useSettingsStore().updateLinkWhilePlaying = true
+      const { syncUrlWithPlayback } = useDeepLink()
+      syncUrlWithPlayback()
+
+      media.currentTime = 8000
+      await nextTick()
+
+      expect(replaceState).not.toHaveBeenCalled()
+    })
+  })
+})
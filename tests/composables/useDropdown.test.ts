@@ -0,0 +1,62 @@
+import { useDropdown } from '@/composables/useDropdown'
+import { useKeyboard } from '@/composables/useKeyboard'
+import { mount } from '@vue/test-utils'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { nextTick, ref } from 'vue'
+
+describe('useDropdown', () => {
+  const outside = document.createElement('button')
+
+  async function setup() {
+    const global = vi.fn()
+    const wrapper = mount({
+      setup() {
+        const root = ref<HTMLElement | null>(null)
+        useKeyboard([{ keys: { key: ' ' }, handler: global }])
+        return { root, ...useDropdown(root) }
+      },
+      template: '<div ref="root"><div id="trigger" tabindex="0"></div><ul tabindex="0"><li>Item</li></ul></div>',
+    }, { attachTo: document.body })
+    await nextTick()
+    return { wrapper, global, trigger: document.getElementById('trigger')! }
+  }
+
+  afterEach(() => {
+    outside.remove()
+  })
+
+  it('should be open while the focus is inside the dropdown', async () => {
+    document.body.appendChild(outside)
+    const { wrapper, trigger } = await setup()
+
+    trigger.focus()
+    expect(wrapper.vm.isDropdownOpen).toBe(true)
+
+    wrapper.find('ul').element.focus()
+    expect(wrapper.vm.isDropdownOpen).toBe(true)
+
+    outside.focus()
+    await nextTick()
+    expect(wrapper.vm.isDropdownOpen).toBe(false)
+
+    wrapper.unmount()
+  })
+
+  it('should shadow the player shortcuts and close on Escape', async () => {
+    const { wrapper, global, trigger } = await setup()
+
+    trigger.focus()
+    await nextTick()
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: ' ', cancelable: true }))
+    expect(global).not.toHaveBeenCalled()
+
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', cancelable: true }))
+    await nextTick()
+    expect(wrapper.vm.isDropdownOpen).toBe(false)
+
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: ' ', cancelable: true }))
+    expect(global).toHaveBeenCalledTimes(1)
+
+    wrapper.unmount()
+  })
+})
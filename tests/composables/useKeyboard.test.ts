@@ -1,7 +1,15 @@
-import { type KeyBinding, useKeyboard } from '@/composables/useKeyboard'
+import {
+  findKeyConflicts,
+  type KeyBinding,
+  keyDefFromEvent,
+  keyDefsOverlap,
+  remapBindings,
+  useKeyboard,
+  useKeyboardScope,
+} from '@/composables/useKeyboard'
 import { mount } from '@vue/test-utils'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
-import { ref } from 'vue'
+import { nextTick, ref } from 'vue'
 
 describe('useKeyboard', () => {
   let mockAddEventListener: ReturnType<typeof vi.fn>
@@ -566,6 +574,43 @@ describe('useKeyboard', () => {
 
       wrapper.unmount()
     })
+
+    it('should trigger bindings marked as editable from input elements', async () => {
+      const handler = vi.fn()
+      const other = vi.fn()
+      const bindings: KeyBinding[] = [
+        {
+          keys: { key: 'k', ctrl: true },
+          handler,
+          editable: true,
+        },
+        {
+          keys: { key: 'a' },
+          handler: other,
+        },
+      ]
+
+      const wrapper = createTestComponent(bindings)
+      await wrapper.vm.$nextTick()
+
+      const eventListener = mockAddEventListener.mock.calls[0]?.[1]
+      const inputElement = document.createElement('input')
+      const createEvent = (key: string, ctrlKey: boolean) => ({
+        key,
+        ctrlKey,
+        preventDefault: mockPreventDefault,
+        stopPropagation: mockStopPropagation,
+        target: inputElement,
+      }) as unknown as KeyboardEvent
+
+      eventListener(createEvent('k', true))
+      eventListener(createEvent('a', false))
+
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(other).not.toHaveBeenCalled()
+
+      wrapper.unmount()
+    })
   })
 
   describe('scoping', () => {
@@ -734,4 +779,303 @@ describe('useKeyboard', () => {
       wrapper.unmount()
     })
   })
+
+  describe('key sequences', () => {
+    function setup(bindings: KeyBinding[]) {
+      const wrapper = mount({
+        setup() {
+          return useKeyboard(bindings, { sequenceTimeout: 1000 })
+        },
+        template: '<div></div>',
+      })
+      const eventListener = mockAddEventListener.mock.calls[0]?.[1]
+      const press = (key: string) => {
+        const event = new KeyboardEvent('keydown', { key, cancelable: true })
+        eventListener(event)
+        return event
+      }
+      return { wrapper, press, pendingKeys: () => wrapper.vm.pendingKeys as string[] }
+    }
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('should trigger after all keys of the sequence', () => {
+      const handler = vi.fn()
+      const { wrapper, press, pendingKeys } = setup([{ keys: { key: 'g', prefix: [{ key: 'g' }] }, handler }])
+
+      expect(press('g').defaultPrevented).toBe(true)
+      expect(handler).not.toHaveBeenCalled()
+      expect(pendingKeys()).toEqual(['g'])
+
+      press('g')
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(pendingKeys()).toEqual([])
+
+      wrapper.unmount()
+    })
+
+    it('should pass the typed number to the handler', () => {
+      const handler = vi.fn()
+      const digit = vi.fn()
+      const { wrapper, press, pendingKeys } = setup([
+        { keys: { key: 'Enter', prefix: [{ key: 'g' }], digits: true }, handler },
+        { keys: [{ key: '1' }, { key: '2' }], handler: digit },
+      ])
+
+      press('g')
+      press('1')
+      press('2')
+      expect(pendingKeys()).toEqual(['g', '1', '2'])
+
+      const enter = press('Enter')
+      expect(handler).toHaveBeenCalledWith(enter, 12)
+      expect(digit).not.toHaveBeenCalled()
+
+      wrapper.unmount()
+    })
+
+    it('should handle a key that breaks the sequence on its own', () => {
+      const sequence = vi.fn()
+      const single = vi.fn()
+      const { wrapper, press, pendingKeys } = setup([
+        { keys: { key: 'e', prefix: [{ key: 'g' }] }, handler: sequence },
+        { keys: { key: 'x' }, handler: single },
+      ])
+
+      press('g')
+      press('x')
+
+      expect(single).toHaveBeenCalledTimes(1)
+      expect(sequence).not.toHaveBeenCalled()
+      expect(pendingKeys()).toEqual([])
+
+      press('e')
+      expect(sequence).not.toHaveBeenCalled()
+
+      wrapper.unmount()
+    })
+
+    it('should cancel the sequence after the timeout', () => {
+      vi.useFakeTimers()
+      const handler = vi.fn()
+      const { wrapper, press, pendingKeys } = setup([{ keys: { key: 'g', prefix: [{ key: 'g' }] }, handler }])
+
+      press('g')
+      vi.advanceTimersByTime(1000)
+      expect(pendingKeys()).toEqual([])
+
+      press('g')
+      expect(handler).not.toHaveBeenCalled()
+
+      wrapper.unmount()
+    })
+
+    it('should let a single key with higher priority take the first key of a sequence', () => {
+      const sequence = vi.fn()
+      const single = vi.fn()
+      const { wrapper, press } = setup([
+        { keys: { key: 'g', prefix: [{ key: 'g' }] }, handler: sequence },
+        { keys: { key: 'g' }, handler: single, priority: 1 },
+      ])
+
+      press('g')
+      press('g')
+
+      expect(single).toHaveBeenCalledTimes(2)
+      expect(sequence).not.toHaveBeenCalled()
+
+      wrapper.unmount()
+    })
+  })
+
+  describe('keyboard scopes', () => {
+    function setup(initiallyOpen = false) {
+      const open = ref(initiallyOpen)
+      const global = vi.fn()
+      const scoped = vi.fn()
+      const wrapper = mount({
+        setup() {
+          const root = ref<HTMLElement | null>(null)
+          useKeyboard([{ keys: { key: ' ' }, handler: global }])
+          const { scope } = useKeyboardScope(open, { root, trapFocus: true })
+          useKeyboard([{ keys: { key: ' ' }, handler: scoped }], { scope })
+          return { root }
+        },
+        template: '<div ref="root"><button id="first">First</button><button id="last">Last</button></div>',
+      }, { attachTo: document.body })
+      const listeners = mockAddEventListener.mock.calls
+        .filter(call => call[0] === 'keydown')
+        .map(call => call[1])
+      const press = (key: string, init: KeyboardEventInit = {}) => {
+        const event = new KeyboardEvent('keydown', { key, cancelable: true, ...init })
+        listeners.forEach(listener => listener(event))
+        return event
+      }
+      return { wrapper, open, global, scoped, press }
+    }
+
+    it('should shadow global bindings while a scope is open', async () => {
+      const { wrapper, open, global, scoped, press } = setup()
+
+      press(' ')
+      expect(global).toHaveBeenCalledTimes(1)
+      expect(scoped).not.toHaveBeenCalled()
+
+      open.value = true
+      await nextTick()
+      press(' ')
+      expect(global).toHaveBeenCalledTimes(1)
+      expect(scoped).toHaveBeenCalledTimes(1)
+
+      open.value = false
+      await nextTick()
+      press(' ')
+      expect(global).toHaveBeenCalledTimes(2)
+      expect(scoped).toHaveBeenCalledTimes(1)
+
+      wrapper.unmount()
+    })
+
+    it('should restore global bindings when the component unmounts while open', async () => {
+      const { wrapper, open, global, press } = setup()
+      open.value = true
+      await nextTick()
+
+      wrapper.unmount()
+      press(' ')
+
+      expect(global).toHaveBeenCalledTimes(1)
+    })
+
+    it('should trap the focus and move it back on close', async () => {
+      const outside = document.createElement('button')
+      document.body.appendChild(outside)
+      outside.focus()
+      const { wrapper, open, press } = setup()
+      const first = document.getElementById('first')
+      const last = document.getElementById('last')
+
+      open.value = true
+      await nextTick()
+      expect(document.activeElement).toBe(first)
+
+      press('Tab', { shiftKey: true })
+      expect(document.activeElement).toBe(last)
+      expect(press('Tab').defaultPrevented).toBe(true)
+      expect(document.activeElement).toBe(first)
+
+      open.value = false
+      await nextTick()
+      expect(document.activeElement).toBe(outside)
+
+      wrapper.unmount()
+      outside.remove()
+    })
+
+    it('should move the focus into a scope that is open when mounted and back on close', async () => {
+      const outside = document.createElement('button')
+      document.body.appendChild(outside)
+      outside.focus()
+      const { wrapper, open, global, press } = setup(true)
+
+      expect(document.activeElement).toBe(document.getElementById('first'))
+      press(' ')
+      expect(global).not.toHaveBeenCalled()
+
+      open.value = false
+      await nextTick()
+      expect(document.activeElement).toBe(outside)
+
+      wrapper.unmount()
+      outside.remove()
+    })
+  })
+
+  describe('keyDefsOverlap', () => {
+    it('should compare keys case-insensitively', () => {
+      expect(keyDefsOverlap({ key: 'k' }, { key: 'K' })).toBe(true)
+      expect(keyDefsOverlap({ key: 'k' }, { key: 'j' })).toBe(false)
+    })
+
+    it('should treat unspecified modifiers as matching either state', () => {
+      expect(keyDefsOverlap({ key: 'ArrowLeft' }, { key: 'ArrowLeft', shift: true })).toBe(true)
+      expect(keyDefsOverlap({ key: 'ArrowLeft', shift: false }, { key: 'ArrowLeft', shift: true })).toBe(false)
+    })
+
+    it('should let sequences overlap with the keys they start with', () => {
+      const gg = { key: 'g', prefix: [{ key: 'g' }] }
+
+      expect(keyDefsOverlap(gg, { key: 'g' })).toBe(true)
+      expect(keyDefsOverlap(gg, { key: 'e', prefix: [{ key: 'g' }] })).toBe(false)
+      expect(keyDefsOverlap(gg, { key: 'Home' })).toBe(false)
+    })
+
+    it('should let the primary modifier overlap with Ctrl and Meta', () => {
+      expect(keyDefsOverlap({ key: 'k', primary: true }, { key: 'k', ctrl: true })).toBe(true)
+      expect(keyDefsOverlap({ key: 'k', primary: true }, { key: 'k', meta: true })).toBe(true)
+    })
+  })
+
+  describe('findKeyConflicts', () => {
+    it('should report the binding that is checked first as winner', () => {
+      const first: KeyBinding = { id: 'first', keys: { key: 'a' }, handler: vi.fn() }
+      const second: KeyBinding = { id: 'second', keys: [{ key: 'b' }, { key: 'a' }], handler: vi.fn() }
+
+      expect(findKeyConflicts([first, second])).toEqual([{ key: { key: 'a' }, winner: first, shadowed: second }])
+    })
+
+    it('should let higher priority bindings win', () => {
+      const low: KeyBinding = { keys: { key: 'a' }, handler: vi.fn() }
+      const high: KeyBinding = { keys: { key: 'a', ctrl: false }, handler: vi.fn(), priority: 1 }
+
+      const [conflict] = findKeyConflicts([low, high])
+
+      expect(conflict?.winner).toBe(high)
+      expect(conflict?.shadowed).toBe(low)
+    })
+
+    it('should find no conflicts between different keys', () => {
+      const bindings: KeyBinding[] = [
+        { keys: { key: 'ArrowLeft', shift: false }, handler: vi.fn() },
+        { keys: { key: 'ArrowLeft', shift: true }, handler: vi.fn() },
+      ]
+
+      expect(findKeyConflicts(bindings)).toEqual([])
+    })
+  })
+
+  describe('remapBindings', () => {
+    it('should replace the keys and keep the repeat behavior', () => {
+      const handler = vi.fn()
+      const bindings: KeyBinding[] = [
+        { id: 'play', keys: [{ key: ' ', repeat: false }, { key: 'k', repeat: false }], handler },
+        { id: 'mute', keys: { key: 'm' }, handler },
+      ]
+
+      const remapped = remapBindings(bindings, { play: [{ key: 'p', ctrl: true }] })
+
+      expect(remapped[0]?.keys).toEqual([{ key: 'p', ctrl: true, repeat: false }])
+      expect(remapped[1]).toBe(bindings[1])
+    })
+
+    it('should remove all keys for an empty list', () => {
+      const bindings: KeyBinding[] = [{ id: 'mute', keys: { key: 'm' }, handler: vi.fn() }]
+
+      expect(remapBindings(bindings, { mute: [] })[0]?.keys).toEqual([])
+    })
+  })
+
+  describe('keyDefFromEvent', () => {
+    it('should record the key with all modifiers', () => {
+      const event = new KeyboardEvent('keydown', { key: 'J', code: 'KeyJ', shiftKey: true, ctrlKey: true })
+
+      expect(keyDefFromEvent(event)).toEqual({ key: 'J', code: 'KeyJ', ctrl: true, shift: true, alt: false, meta: false })
+    })
+
+    it('should ignore modifier keys alone', () => {
+      expect(keyDefFromEvent(new KeyboardEvent('keydown', { key: 'Shift', shiftKey: true }))).toBeNull()
+    })
+  })
 })
@@ -1,5 +1,7 @@
+import { useCommands } from '@/composables/useCommands'
 import { useKeyboardShortcuts } from '@/composables/useKeyboardShortcuts'
-import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { type EffectScope, effectScope } from 'vue'
 
 // Mock the dependencies
 vi.mock('@/stores/mediaControls', () => ({
@@ -8,12 +10,30 @@ vi.mock('@/stores/mediaControls', () => ({
     setVolume: vi.fn(),
     toggleMute: vi.fn(),
     setPlaybackSpeed: vi.fn(),
+    setLoopStart: vi.fn(),
+    setLoopEnd: vi.fn(),
+    clearLoop: vi.fn(),
+    seekBy: vi.fn(),
+    seekToFraction: vi.fn(),
+    stepFrame: vi.fn(),
     volume: 50,
     playbackSpeed: 1.0,
     pageCount: 10,
   })),
 }))
 
+vi.mock('@/stores/bookmarks', () => ({
+  useBookmarksStore: vi.fn(() => ({
+    add: vi.fn(),
+  })),
+}))
+
+vi.mock('@/stores/settings', () => ({
+  useSettingsStore: vi.fn(() => ({
+    shortcuts: {},
+  })),
+}))
+
 vi.mock('@/composables/useFullscreenControls', () => ({
   useFullscreenControls: vi.fn(() => ({
     toggleFullscreen: vi.fn(),
@@ -25,10 +45,12 @@ vi.mock('@/composables/usePlayerControls', () => ({
     selectPrevPage: vi.fn(),
     selectNextPage: vi.fn(),
     selectPage: vi.fn(),
+    toggleLoopCurrentPage: vi.fn(),
   })),
 }))
 
-vi.mock('@/composables/useKeyboard', () => ({
+vi.mock('@/composables/useKeyboard', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/composables/useKeyboard')>()),
   useKeyboard: vi.fn(() => ({
     enabled: { value: true },
   })),
@@ -37,21 +59,40 @@ vi.mock('@/composables/useKeyboard', () => ({
 import { useFullscreenControls } from '@/composables/useFullscreenControls'
 import { useKeyboard } from '@/composables/useKeyboard'
 import { usePlayerControls } from '@/composables/usePlayerControls'
+import { useBookmarksStore } from '@/stores/bookmarks'
 import { useMediaControlsStore } from '@/stores/mediaControls'
+import { useSettingsStore } from '@/stores/settings'
 
 describe('useKeyboardShortcuts', () => {
   let mockMediaStore: ReturnType<typeof useMediaControlsStore>
   let mockFullscreenControls: ReturnType<typeof useFullscreenControls>
   let mockPlayerControls: ReturnType<typeof usePlayerControls>
+  let mockBookmarksStore: ReturnType<typeof useBookmarksStore>
+  let scope: EffectScope
+
+  /**
+   * Calls useKeyboardShortcuts() in a scope that is stopped after each test, which removes its commands again.
+   */
+  function setup(showShortcutsDialog?: () => void) {
+    return scope.run(() => useKeyboardShortcuts(showShortcutsDialog))!
+  }
 
   beforeEach(() => {
     vi.clearAllMocks()
+    scope = effectScope()
 
     mockMediaStore = {
       togglePlayPause: vi.fn(),
       setVolume: vi.fn(),
       toggleMute: vi.fn(),
       setPlaybackSpeed: vi.fn(),
+      setLoopStart: vi.fn(),
+      setLoopEnd: vi.fn(),
+      clearLoop: vi.fn(),
+      seekBy: vi.fn(),
+      seekToFraction: vi.fn(),
+      stepFrame: vi.fn(),
+      playbackState: 'paused',
       volume: 50,
       playbackSpeed: 1.0,
       pageCount: 10,
@@ -65,16 +106,29 @@ describe('useKeyboardShortcuts', () => {
       selectPrevPage: vi.fn(),
       selectNextPage: vi.fn(),
       selectPage: vi.fn(),
+      toggleLoopCurrentPage: vi.fn(),
     } as unknown as ReturnType<typeof usePlayerControls>
 
     vi.mocked(useMediaControlsStore).mockReturnValue(mockMediaStore)
     vi.mocked(useFullscreenControls).mockReturnValue(mockFullscreenControls)
+    mockBookmarksStore = {
+      add: vi.fn(),
+    } as unknown as ReturnType<typeof useBookmarksStore>
+
     vi.mocked(usePlayerControls).mockReturnValue(mockPlayerControls)
+    vi.mocked(useBookmarksStore).mockReturnValue(mockBookmarksStore)
+    vi.mocked(useSettingsStore).mockReturnValue({
+      shortcuts: {},
+    } as unknown as ReturnType<typeof useSettingsStore>)
+  })
+
+  afterEach(() => {
+    scope.stop()
   })
 
   describe('initialization', () => {
     it('should initialize keyboard shortcuts with default options', () => {
-      useKeyboardShortcuts()
+      setup()
 
       expect(useKeyboard).toHaveBeenCalledWith(
         expect.any(Array),
@@ -85,7 +139,7 @@ describe('useKeyboardShortcuts', () => {
     })
 
     it('should return enabled state', () => {
-      const { enabled } = useKeyboardShortcuts()
+      const { enabled } = setup()
 
       expect(enabled).toBeDefined()
       expect(enabled.value).toBe(true)
@@ -94,7 +148,7 @@ describe('useKeyboardShortcuts', () => {
 
   describe('play/pause shortcuts', () => {
     it('should register space key shortcut', () => {
-      useKeyboardShortcuts()
+      setup()
 
       const shortcuts = vi.mocked(useKeyboard).mock.calls[0]?.[0] as Array<{
         keys: Array<{ key: string; repeat: boolean }>
@@ -102,14 +156,14 @@ describe('useKeyboardShortcuts', () => {
         description: string
       }>
 
-      const spaceShortcut = shortcuts.find(s => Array.isArray(s.keys) && s.keys.some(k => k.key === ' '))
+      const spaceShortcut = shortcuts.find(s => s.keys.some(k => k.key === ' '))
 
       expect(spaceShortcut).toBeDefined()
       expect(spaceShortcut?.description).toBe('Play/Pause')
     })
 
     it('should register K key shortcut', () => {
-      useKeyboardShortcuts()
+      setup()
 
       const shortcuts = vi.mocked(useKeyboard).mock.calls[0]?.[0] as Array<{
         keys: Array<{ key: string; repeat: boolean }>
@@ -117,21 +171,21 @@ describe('useKeyboardShortcuts', () => {
         description: string
       }>
 
-      const kShortcut = shortcuts.find(s => Array.isArray(s.keys) && s.keys.some(k => k.key === 'k'))
+      const kShortcut = shortcuts.find(s => s.keys.some(k => k.key === 'k'))
 
       expect(kShortcut).toBeDefined()
       expect(kShortcut?.description).toBe('Play/Pause')
     })
 
     it('should call togglePlayPause when space is pressed', () => {
-      useKeyboardShortcuts()
+      setup()
 
       const shortcuts = vi.mocked(useKeyboard).mock.calls[0]?.[0] as Array<{
         keys: Array<{ key: string; repeat: boolean }>
         handler: () => void
       }>
 
-      const spaceShortcut = shortcuts.find(s => Array.isArray(s.keys) && s.keys.some(k => k.key === ' '))
+      const spaceShortcut = shortcuts.find(s => s.keys.some(k => k.key === ' '))
 
       spaceShortcut?.handler()
 
@@ -141,16 +195,16 @@ describe('useKeyboardShortcuts', () => {
 
   describe('navigation shortcuts', () => {
     it('should register arrow key shortcuts', () => {
-      useKeyboardShortcuts()
+      setup()
 
       const shortcuts = vi.mocked(useKeyboard).mock.calls[0]?.[0] as Array<{
-        keys: { key: string; repeat: boolean }
+        keys: Array<{ key: string; repeat: boolean }>
         handler: () => void
         description: string
       }>
 
-      const leftArrow = shortcuts.find(s => s.keys.key === 'ArrowLeft')
-      const rightArrow = shortcuts.find(s => s.keys.key === 'ArrowRight')
+      const leftArrow = shortcuts.find(s => s.keys.some(k => k.key === 'ArrowLeft'))
+      const rightArrow = shortcuts.find(s => s.keys.some(k => k.key === 'ArrowRight'))
 
       expect(leftArrow).toBeDefined()
       expect(leftArrow?.description).toBe('Previous page')
@@ -159,16 +213,16 @@ describe('useKeyboardShortcuts', () => {
     })
 
     it('should register Home and End shortcuts', () => {
-      useKeyboardShortcuts()
+      setup()
 
       const shortcuts = vi.mocked(useKeyboard).mock.calls[0]?.[0] as Array<{
-        keys: { key: string; repeat: boolean }
+        keys: Array<{ key: string; repeat: boolean }>
         handler: () => void
         description: string
       }>
 
-      const homeShortcut = shortcuts.find(s => s.keys.key === 'Home')
-      const endShortcut = shortcuts.find(s => s.keys.key === 'End')
+      const homeShortcut = shortcuts.find(s => s.keys.some(k => k.key === 'Home'))
+      const endShortcut = shortcuts.find(s => s.keys.some(k => k.key === 'End'))
 
       expect(homeShortcut).toBeDefined()
       expect(homeShortcut?.description).toBe('Jump to first page')
@@ -176,18 +230,31 @@ describe('useKeyboardShortcuts', () => {
       expect(endShortcut?.description).toBe('Jump to last page')
     })
 
+    it('should go to a page typed after g', () => {
+      setup()
+
+      const shortcuts = vi.mocked(useKeyboard).mock.calls[0]?.[0] as Array<{
+        id?: string
+        handler: (e: KeyboardEvent, page?: number) => void
+      }>
+
+      shortcuts.find(s => s.id === 'go-to-page')?.handler(new KeyboardEvent('keydown', { key: 'Enter' }), 12)
+
+      expect(mockPlayerControls.selectPage).toHaveBeenCalledWith(12)
+    })
+
     it('should call navigation functions', () => {
-      useKeyboardShortcuts()
+      setup()
 
       const shortcuts = vi.mocked(useKeyboard).mock.calls[0]?.[0] as Array<{
-        keys: { key: string; repeat: boolean }
+        keys: Array<{ key: string; repeat: boolean }>
         handler: () => void
       }>
 
-      const leftArrow = shortcuts.find(s => s.keys.key === 'ArrowLeft')
-      const rightArrow = shortcuts.find(s => s.keys.key === 'ArrowRight')
-      const homeShortcut = shortcuts.find(s => s.keys.key === 'Home')
-      const endShortcut = shortcuts.find(s => s.keys.key === 'End')
+      const leftArrow = shortcuts.find(s => s.keys.some(k => k.key === 'ArrowLeft'))
+      const rightArrow = shortcuts.find(s => s.keys.some(k => k.key === 'ArrowRight'))
+      const homeShortcut = shortcuts.find(s => s.keys.some(k => k.key === 'Home'))
+      const endShortcut = shortcuts.find(s => s.keys.some(k => k.key === 'End'))
 
       leftArrow?.handler()
       expect(mockPlayerControls.selectPrevPage).toHaveBeenCalled()
@@ -205,17 +272,17 @@ describe('useKeyboardShortcuts', () => {
 
   describe('volume shortcuts', () => {
     it('should register volume control shortcuts', () => {
-      useKeyboardShortcuts()
+      setup()
 
       const shortcuts = vi.mocked(useKeyboard).mock.calls[0]?.[0] as Array<{
-        keys: { key: string; repeat: boolean }
+        keys: Array<{ key: string; repeat: boolean }>
         handler: () => void
         description: string
       }>
 
-      const upArrow = shortcuts.find(s => s.keys.key === 'ArrowUp')
-      const downArrow = shortcuts.find(s => s.keys.key === 'ArrowDown')
-      const mShortcut = shortcuts.find(s => s.keys.key === 'm')
+      const upArrow = shortcuts.find(s => s.keys.some(k => k.key === 'ArrowUp'))
+      const downArrow = shortcuts.find(s => s.keys.some(k => k.key === 'ArrowDown'))
+      const mShortcut = shortcuts.find(s => s.keys.some(k => k.key === 'm'))
 
       expect(upArrow).toBeDefined()
       expect(upArrow?.description).toBe('Volume up')
@@ -226,28 +293,28 @@ describe('useKeyboardShortcuts', () => {
     })
 
     it('should increase volume with up arrow', () => {
-      useKeyboardShortcuts()
+      setup()
 
       const shortcuts = vi.mocked(useKeyboard).mock.calls[0]?.[0] as Array<{
-        keys: { key: string; repeat: boolean }
+        keys: Array<{ key: string; repeat: boolean }>
         handler: () => void
       }>
 
-      const upArrow = shortcuts.find(s => s.keys.key === 'ArrowUp')
+      const upArrow = shortcuts.find(s => s.keys.some(k => k.key === 'ArrowUp'))
       upArrow?.handler()
 
       expect(mockMediaStore.setVolume).toHaveBeenCalledWith(55) // 50 + 5
     })
 
     it('should decrease volume with down arrow', () => {
-      useKeyboardShortcuts()
+      setup()
 
       const shortcuts = vi.mocked(useKeyboard).mock.calls[0]?.[0] as Array<{
-        keys: { key: string; repeat: boolean }
+        keys: Array<{ key: string; repeat: boolean }>
         handler: () => void
       }>
 
-      const downArrow = shortcuts.find(s => s.keys.key === 'ArrowDown')
+      const downArrow = shortcuts.find(s => s.keys.some(k => k.key === 'ArrowDown'))
       downArrow?.handler()
 
       expect(mockMediaStore.setVolume).toHaveBeenCalledWith(45) // 50 - 5
@@ -255,28 +322,28 @@ describe('useKeyboardShortcuts', () => {
 
     it('should clamp volume to valid range', () => {
       mockMediaStore.volume = 98
-      useKeyboardShortcuts()
+      setup()
 
       const shortcuts = vi.mocked(useKeyboard).mock.calls[0]?.[0] as Array<{
-        keys: { key: string; repeat: boolean }
+        keys: Array<{ key: string; repeat: boolean }>
         handler: () => void
       }>
 
-      const upArrow = shortcuts.find(s => s.keys.key === 'ArrowUp')
+      const upArrow = shortcuts.find(s => s.keys.some(k => k.key === 'ArrowUp'))
       upArrow?.handler()
 
       expect(mockMediaStore.setVolume).toHaveBeenCalledWith(100) // Clamped to 100
     })
 
     it('should toggle mute with M key', () => {
-      useKeyboardShortcuts()
+      setup()
 
       const shortcuts = vi.mocked(useKeyboard).mock.calls[0]?.[0] as Array<{
-        keys: { key: string; repeat: boolean }
+        keys: Array<{ key: string; repeat: boolean }>
         handler: () => void
       }>
 
-      const mShortcut = shortcuts.find(s => s.keys.key === 'm')
+      const mShortcut = shortcuts.find(s => s.keys.some(k => k.key === 'm'))
       mShortcut?.handler()
 
       expect(mockMediaStore.toggleMute).toHaveBeenCalled()
@@ -285,29 +352,29 @@ describe('useKeyboardShortcuts', () => {
 
   describe('fullscreen shortcut', () => {
     it('should register F key shortcut', () => {
-      useKeyboardShortcuts()
+      setup()
 
       const shortcuts = vi.mocked(useKeyboard).mock.calls[0]?.[0] as Array<{
-        keys: { key: string; repeat: boolean }
+        keys: Array<{ key: string; repeat: boolean }>
         handler: () => void
         description: string
       }>
 
-      const fShortcut = shortcuts.find(s => s.keys.key === 'f')
+      const fShortcut = shortcuts.find(s => s.keys.some(k => k.key === 'f'))
 
       expect(fShortcut).toBeDefined()
       expect(fShortcut?.description).toBe('Toggle fullscreen')
     })
 
     it('should call toggleFullscreen when F is pressed', () => {
-      useKeyboardShortcuts()
+      setup()
 
       const shortcuts = vi.mocked(useKeyboard).mock.calls[0]?.[0] as Array<{
-        keys: { key: string; repeat: boolean }
+        keys: Array<{ key: string; repeat: boolean }>
         handler: () => void
       }>
 
-      const fShortcut = shortcuts.find(s => s.keys.key === 'f')
+      const fShortcut = shortcuts.find(s => s.keys.some(k => k.key === 'f'))
       fShortcut?.handler()
 
       expect(mockFullscreenControls.toggleFullscreen).toHaveBeenCalled()
@@ -316,17 +383,17 @@ describe('useKeyboardShortcuts', () => {
 
   describe('playback speed shortcuts', () => {
     it('should register speed control shortcuts', () => {
-      useKeyboardShortcuts()
+      setup()
 
       const shortcuts = vi.mocked(useKeyboard).mock.calls[0]?.[0] as Array<{
-        keys: Array<{ key: string; shift?: boolean; repeat: boolean }> | { key: string; repeat: boolean }
+        keys: Array<{ key: string; shift?: boolean; repeat: boolean }>
         handler: () => void
         description: string
       }>
 
-      const increaseSpeed = shortcuts.find(s => Array.isArray(s.keys) && s.keys.some(k => k.key === '>'))
-      const decreaseSpeed = shortcuts.find(s => Array.isArray(s.keys) && s.keys.some(k => k.key === '<'))
-      const normalSpeed = shortcuts.find(s => Array.isArray(s.keys) && s.keys.some(k => k.key === '0' || k.key === '='))
+      const increaseSpeed = shortcuts.find(s => s.keys.some(k => k.key === '>'))
+      const decreaseSpeed = shortcuts.find(s => s.keys.some(k => k.key === '<'))
+      const normalSpeed = shortcuts.find(s => s.keys.some(k => k.key === '0' || k.key === '='))
 
       expect(increaseSpeed).toBeDefined()
       expect(increaseSpeed?.description).toBe('Increase playback speed')
@@ -338,14 +405,14 @@ describe('useKeyboardShortcuts', () => {
 
     it('should increase playback speed', () => {
       mockMediaStore.playbackSpeed = 1.0
-      useKeyboardShortcuts()
+      setup()
 
       const shortcuts = vi.mocked(useKeyboard).mock.calls[0]?.[0] as Array<{
         keys: Array<{ key: string; shift?: boolean; repeat: boolean }>
         handler: () => void
       }>
 
-      const increaseSpeed = shortcuts.find(s => Array.isArray(s.keys) && s.keys.some(k => k.key === '>'))
+      const increaseSpeed = shortcuts.find(s => s.keys.some(k => k.key === '>'))
 
       increaseSpeed?.handler()
 
@@ -354,14 +421,14 @@ describe('useKeyboardShortcuts', () => {
 
     it('should decrease playback speed', () => {
       mockMediaStore.playbackSpeed = 1.0
-      useKeyboardShortcuts()
+      setup()
 
       const shortcuts = vi.mocked(useKeyboard).mock.calls[0]?.[0] as Array<{
         keys: Array<{ key: string; shift?: boolean; repeat: boolean }>
         handler: () => void
       }>
 
-      const decreaseSpeed = shortcuts.find(s => Array.isArray(s.keys) && s.keys.some(k => k.key === '<'))
+      const decreaseSpeed = shortcuts.find(s => s.keys.some(k => k.key === '<'))
 
       decreaseSpeed?.handler()
 
@@ -369,14 +436,14 @@ describe('useKeyboardShortcuts', () => {
     })
 
     it('should set normal speed with 0 or =', () => {
-      useKeyboardShortcuts()
+      setup()
 
       const shortcuts = vi.mocked(useKeyboard).mock.calls[0]?.[0] as Array<{
         keys: Array<{ key: string; repeat: boolean }>
         handler: () => void
       }>
 
-      const normalSpeed = shortcuts.find(s => Array.isArray(s.keys) && s.keys.some(k => k.key === '0' || k.key === '='))
+      const normalSpeed = shortcuts.find(s => s.keys.some(k => k.key === '0' || k.key === '='))
 
       normalSpeed?.handler()
 
@@ -385,14 +452,14 @@ describe('useKeyboardShortcuts', () => {
 
     it('should handle speed limits correctly', () => {
       mockMediaStore.playbackSpeed = 2.0
-      useKeyboardShortcuts()
+      setup()
 
       const shortcuts = vi.mocked(useKeyboard).mock.calls[0]?.[0] as Array<{
         keys: Array<{ key: string; shift?: boolean; repeat: boolean }>
         handler: () => void
       }>
 
-      const increaseSpeed = shortcuts.find(s => Array.isArray(s.keys) && s.keys.some(k => k.key === '>'))
+      const increaseSpeed = shortcuts.find(s => s.keys.some(k => k.key === '>'))
 
       increaseSpeed?.handler()
 
@@ -400,46 +467,154 @@ describe('useKeyboardShortcuts', () => {
     })
   })
 
+  describe('seek shortcuts', () => {
+    type Shortcut = {
+      keys: Array<{ key: string; shift?: boolean }>
+      handler: (e: KeyboardEvent) => void
+      when?: () => boolean
+      description: string
+    }
+
+    function findShortcut(key: string, shift?: boolean) {
+      setup()
+      const shortcuts = vi.mocked(useKeyboard).mock.calls[0]?.[0] as Shortcut[]
+      return shortcuts.find(s => s.keys.some(k => k.key === key && (shift === undefined || k.shift === shift)))
+    }
+
+    it('should skip 10 seconds with J and L', () => {
+      findShortcut('j')?.handler(new KeyboardEvent('keydown', { key: 'j' }))
+      findShortcut('l')?.handler(new KeyboardEvent('keydown', { key: 'l' }))
+
+      expect(mockMediaStore.seekBy).toHaveBeenNthCalledWith(1, -10000)
+      expect(mockMediaStore.seekBy).toHaveBeenNthCalledWith(2, 10000)
+    })
+
+    it('should skip 5 seconds with Shift and the arrow keys', () => {
+      expect(findShortcut('ArrowLeft', false)?.description).toBe('Previous page')
+
+      findShortcut('ArrowLeft', true)?.handler(new KeyboardEvent('keydown', { key: 'ArrowLeft', shiftKey: true }))
+      findShortcut('ArrowRight', true)?.handler(new KeyboardEvent('keydown', { key: 'ArrowRight', shiftKey: true }))
+
+      expect(mockMediaStore.seekBy).toHaveBeenNthCalledWith(1, -5000)
+      expect(mockMediaStore.seekBy).toHaveBeenNthCalledWith(2, 5000)
+    })
+
+    it('should jump to a percentage with the digit keys', () => {
+      findShortcut('3')?.handler(new KeyboardEvent('keydown', { key: '3' }))
+
+      expect(mockMediaStore.seekToFraction).toHaveBeenCalledWith(0.3)
+    })
+
+    it('should step frames only while paused', () => {
+      const next = findShortcut('.')
+      const previous = findShortcut(',')
+
+      expect(next?.when?.()).toBe(true)
+      next?.handler(new KeyboardEvent('keydown', { key: '.' }))
+      previous?.handler(new KeyboardEvent('keydown', { key: ',' }))
+      expect(mockMediaStore.stepFrame).toHaveBeenNthCalledWith(1, 1)
+      expect(mockMediaStore.stepFrame).toHaveBeenNthCalledWith(2, -1)
+
+      mockMediaStore.playbackState = 'playing'
+      expect(next?.when?.()).toBe(false)
+    })
+  })
+
+  describe('remapped shortcuts', () => {
+    it('should use the keys assigned by the user', () => {
+      vi.mocked(useSettingsStore).mockReturnValue({
+        shortcuts: { bookmark: [{ key: 'n', ctrl: true }] },
+      } as unknown as ReturnType<typeof useSettingsStore>)
+
+      setup()
+
+      const shortcuts = vi.mocked(useKeyboard).mock.calls[0]?.[0] as Array<{ id?: string; keys: unknown }>
+      expect(shortcuts.find(s => s.id === 'bookmark')?.keys).toEqual([{ key: 'n', ctrl: true, repeat: false }])
+      expect(scope.run(() => useCommands().findCommand('bookmark'))?.keys).toEqual([{ key: 'b', repeat: false }])
+    })
+  })
+
+  describe('bookmark shortcut', () => {
+    it('should add a bookmark when B is pressed', () => {
+      setup()
+
+      const shortcuts = vi.mocked(useKeyboard).mock.calls[0]?.[0] as Array<{
+        keys: Array<{ key: string; repeat: boolean }>
+        handler: () => void
+        description: string
+      }>
+
+      const bShortcut = shortcuts.find(s => s.keys.some(k => k.key === 'b'))
+      expect(bShortcut?.description).toBe('Add bookmark')
+
+      bShortcut?.handler()
+
+      expect(mockBookmarksStore.add).toHaveBeenCalled()
+    })
+  })
+
+  describe('loop shortcuts', () => {
+    it('should set, page-loop and clear the loop', () => {
+      setup()
+
+      const shortcuts = vi.mocked(useKeyboard).mock.calls[0]?.[0] as Array<{
+        keys: Array<{ key: string; repeat: boolean }>
+        handler: () => void
+        description: string
+      }>
+      const press = (key: string) => shortcuts.find(s => s.keys.some(k => k.key === key))?.handler()
+
+      press('[')
+      expect(mockMediaStore.setLoopStart).toHaveBeenCalled()
+      press(']')
+      expect(mockMediaStore.setLoopEnd).toHaveBeenCalled()
+      press('p')
+      expect(mockPlayerControls.toggleLoopCurrentPage).toHaveBeenCalled()
+      press('\\')
+      expect(mockMediaStore.clearLoop).toHaveBeenCalled()
+    })
+  })
+
   describe('help shortcut', () => {
     it('should register help shortcut when showShortcutsDialog is provided', () => {
       const showDialog = vi.fn()
-      useKeyboardShortcuts(showDialog)
+      setup(showDialog)
 
       const shortcuts = vi.mocked(useKeyboard).mock.calls[0]?.[0] as Array<{
-        keys: { key: string; repeat: boolean }
+        keys: Array<{ key: string; repeat: boolean }>
         handler: () => void
         description: string
       }>
 
-      const helpShortcut = shortcuts.find(s => s.keys.key === '?')
+      const helpShortcut = shortcuts.find(s => s.keys.some(k => k.key === '?'))
 
       expect(helpShortcut).toBeDefined()
       expect(helpShortcut?.description).toBe('Show keyboard shortcuts')
     })
 
     it('should not register help shortcut when showShortcutsDialog is not provided', () => {
-      useKeyboardShortcuts()
+      setup()
 
       const shortcuts = vi.mocked(useKeyboard).mock.calls[0]?.[0] as Array<{
-        keys: { key: string; repeat: boolean }
+        keys: Array<{ key: string; repeat: boolean }>
         handler: () => void
       }>
 
-      const helpShortcut = shortcuts.find(s => s.keys.key === '?')
+      const helpShortcut = shortcuts.find(s => s.keys.some(k => k.key === '?'))
 
       expect(helpShortcut).toBeUndefined()
     })
 
     it('should call showShortcutsDialog when ? is pressed', () => {
       const showDialog = vi.fn()
-      useKeyboardShortcuts(showDialog)
+      setup(showDialog)
 
       const shortcuts = vi.mocked(useKeyboard).mock.calls[0]?.[0] as Array<{
-        keys: { key: string; repeat: boolean }
+        keys: Array<{ key: string; repeat: boolean }>
         handler: () => void
       }>
 
-      const helpShortcut = shortcuts.find(s => s.keys.key === '?')
+      const helpShortcut = shortcuts.find(s => s.keys.some(k => k.key === '?'))
       helpShortcut?.handler()
 
       expect(showDialog).toHaveBeenCalled()
@@ -448,7 +623,7 @@ describe('useKeyboardShortcuts', () => {
 
   describe('keyboard configuration', () => {
     it('should configure keyboard to ignore editable elements', () => {
-      useKeyboardShortcuts()
+      setup()
 
       const options = vi.mocked(useKeyboard).mock.calls[0]?.[1]
 
@@ -0,0 +1,141 @@
+import { useMediaSession } from '@/composables/useMediaSession'
+import { useContentStore } from '@/stores/contentStore'
+import { useMediaControlsStore } from '@/stores/mediaControls'
+import { mount } from '@vue/test-utils'
+import { createPinia, setActivePinia } from 'pinia'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { nextTick } from 'vue'
+
+describe('useMediaSession', () => {
+  let session: {
+    metadata: unknown
+    playbackState: MediaSessionPlaybackState
+    setActionHandler: ReturnType<typeof vi.fn>
+    setPositionState: ReturnType<typeof vi.fn>
+  }
+
+  const createTestComponent = () => mount({
+    setup() {
+      useMediaSession()
+    },
+    template: '<div></div>',
+  })
+
+  /**
+   * Calls the handler the composable set for an action.
+   */
+  const trigger = (action: MediaSessionAction, details: Partial<MediaSessionActionDetails> = {}) => {
+    const call = session.setActionHandler.mock.calls.find(([name, handler]) => name === action && handler)
+    call?.[1]({ action, ...details })
+  }
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    session = {
+      metadata: null,
+      playbackState: 'none',
+      setActionHandler: vi.fn(),
+      setPositionState: vi.fn(),
+    }
+    Object.defineProperty(navigator, 'mediaSession', {
+      configurable: true,
+      value: session,
+    })
+    vi.stubGlobal('MediaMetadata', class {
+      constructor(public init: MediaMetadataInit) {}
+    })
+
+    const content = useContentStore()
+    content.metadata = { title: 'Algorithms', lecturer: 'Ada Lovelace' }
+    content.pageModel = [
+      { timestamp: 0, image: 'data:image/png;base64,AAA', text: '' },
+      { timestamp: 60000, image: 'data:image/png;base64,BBB', text: '' },
+    ]
+    const media = useMediaControlsStore()
+    media.pageCount = 2
+    media.totalTime = 120000
+  })
+
+  afterEach(() => {
+    delete (navigator as Navigator & { mediaSession?: unknown }).mediaSession
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('should show the lecture and the current slide as metadata', async () => {
+    const wrapper = createTestComponent()
+
+    expect(session.metadata).toEqual({
+      init: {
+        title: 'Algorithms',
+        artist: 'Ada Lovelace',
+        artwork: [{ src: 'data:image/png;base64,AAA', type: 'image/png' }],
+      },
+    })
+
+    useMediaControlsStore().currentPage = 2
+    await nextTick()
+    expect((session.metadata as { init: MediaMetadataInit }).init.artwork).toEqual([
+      { src: 'data:image/png;base64,BBB', type: 'image/png' },
+    ])
+
+    wrapper.unmount()
+    expect(session.metadata).toBeNull()
+  })
+
+  it('should map the actions to the player', () => {
+    const media = useMediaControlsStore()
+    const play = vi.spyOn(media, 'play').mockResolvedValue()
+    const pause = vi.spyOn(media, 'pause').mockImplementation(() => {})
+    const wrapper = createTestComponent()
+
+    trigger('play')
+    trigger('pause')
+    expect(play).toHaveBeenCalled()
+    expect(pause).toHaveBeenCalled()
+
+    trigger('seekto', { seekTime: 30 })
+    expect(media.currentTime).toBe(30000)
+    trigger('seekforward')
+    expect(media.currentTime).toBe(40000)
+    trigger('seekbackward', { seekOffset: 5 })
+    expect(media.currentTime).toBe(35000)
+
+    trigger('nexttrack')
+    expect(media.currentPage).toBe(2)
+    expect(media.currentTime).toBe(60000)
+    trigger('previoustrack')
+    expect(media.currentPage).toBe(1)
+
+    wrapper.unmount()
+    expect(session.setActionHandler).toHaveBeenCalledWith('play', null)
+  })
+
+  it('should keep the playback and position state in sync', async () => {
+    const media = useMediaControlsStore()
+    const wrapper = createTestComponent()
+
+    expect(session.playbackState).toBe('paused')
+    expect(session.setPositionState).toHaveBeenLastCalledWith({ duration: 120, playbackRate: 1, position: 0 })
+
+    media.playbackState = 'playing'
+    media.currentTime = 30000
+    media.playbackSpeed = 1.5
+    await nextTick()
+
+    expect(session.playbackState).toBe('playing')
+    expect(session.setPositionState).toHaveBeenLastCalledWith({ duration: 120, playbackRate: 1.5, position: 30 })
+
+    wrapper.unmount()
+  })
+
+  it('should ignore actions the browser does not support', () => {
+    session.setActionHandler.mockImplementation((action: string) => {
+      if (action === 'seekto') {
+        throw new TypeError('not supported')
+      }
+    })
+
+    expect(() => createTestComponent().unmount()).not.toThrow()
+  })
+})
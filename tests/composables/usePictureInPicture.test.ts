@@ -0,0 +1,99 @@
+import { usePictureInPicture } from '@/composables/usePictureInPicture'
+import { useMediaControlsStore } from '@/stores/mediaControls'
+import { createPinia, setActivePinia } from 'pinia'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+describe('usePictureInPicture', () => {
+  let player: HTMLDivElement
+  let video: HTMLVideoElement
+
+  /**
+   * Creates a stand-in for the window opened by the Document Picture-in-Picture API.
+   */
+  const createPipWindow = () => {
+    const target = new EventTarget()
+    return Object.assign(target, {
+      document: document.implementation.createHTMLDocument('PiP'),
+      close: vi.fn(() => target.dispatchEvent(new Event('pagehide'))),
+    }) as unknown as Window
+  }
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    player = document.createElement('div')
+    video = document.createElement('video')
+    player.append(video, document.createElement('span'))
+    document.body.append(player)
+    useMediaControlsStore().mediaEl = video
+  })
+
+  afterEach(async () => {
+    await usePictureInPicture().exitPictureInPicture()
+    player.remove()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('should move the video into the mini-player and back', async () => {
+    const pipWindow = createPipWindow()
+    const requestWindow = vi.fn().mockResolvedValue(pipWindow)
+    vi.stubGlobal('documentPictureInPicture', { window: null, requestWindow })
+    const { isSupported, active, moveVideoTo, togglePictureInPicture } = usePictureInPicture()
+
+    expect(isSupported).toBe(true)
+    await togglePictureInPicture()
+    expect(requestWindow).toHaveBeenCalled()
+    expect(active.value).toBe(true)
+
+    const host = pipWindow.document.createElement('div')
+    pipWindow.document.body.append(host)
+    moveVideoTo(host)
+    expect(video.parentNode).toBe(host)
+
+    await togglePictureInPicture()
+    expect(pipWindow.close).toHaveBeenCalled()
+    expect(active.value).toBe(false)
+    expect(player.firstChild).toBe(video)
+  })
+
+  it('should move the video back when the user closes the mini-player', async () => {
+    const pipWindow = createPipWindow()
+    vi.stubGlobal('documentPictureInPicture', { window: null, requestWindow: vi.fn().mockResolvedValue(pipWindow) })
+    const { active, moveVideoTo, enterPictureInPicture } = usePictureInPicture()
+
+    await enterPictureInPicture()
+    moveVideoTo(pipWindow.document.body)
+    pipWindow.dispatchEvent(new Event('pagehide'))
+
+    expect(active.value).toBe(false)
+    expect(player.firstChild).toBe(video)
+  })
+
+  it('should fall back to video picture-in-picture', async () => {
+    Object.defineProperty(document, 'pictureInPictureEnabled', { configurable: true, value: true })
+    Object.defineProperty(document, 'exitPictureInPicture', { configurable: true, value: vi.fn().mockResolvedValue(undefined) })
+    const requestPictureInPicture = vi.fn().mockResolvedValue({})
+    Object.defineProperty(HTMLVideoElement.prototype, 'requestPictureInPicture', {
+      configurable: true,
+      value: requestPictureInPicture,
+    })
+    const { isSupported, active, enterPictureInPicture } = usePictureInPicture()
+
+    expect(isSupported).toBe(true)
+    await enterPictureInPicture()
+    expect(requestPictureInPicture).toHaveBeenCalled()
+    expect(active.value).toBe(true)
+
+    // Closed with the button of the Picture-in-Picture window
+    video.dispatchEvent(new Event('leavepictureinpicture'))
+    expect(active.value).toBe(false)
+    expect(video.parentNode).toBe(player)
+
+    delete (HTMLVideoElement.prototype as Partial<HTMLVideoElement>).requestPictureInPicture
+    delete (document as Partial<Document>).pictureInPictureEnabled
+  })
+
+  it('should not be supported without any Picture-in-Picture API', () => {
+    expect(usePictureInPicture().isSupported).toBe(false)
+  })
+})
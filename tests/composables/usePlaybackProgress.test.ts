@@ -0,0 +1,71 @@
+import { usePlaybackProgress } from '@/composables/usePlaybackProgress'
+import { useContentStore } from '@/stores/contentStore'
+import { useMediaControlsStore } from '@/stores/mediaControls'
+import { usePlaybackProgressStore } from '@/stores/playbackProgress'
+import { useSettingsStore } from '@/stores/settings'
+import { mount } from '@vue/test-utils'
+import { createPinia, setActivePinia } from 'pinia'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { nextTick } from 'vue'
+
+// Mock the storage utilities
+vi.mock('@/utils/storage', () => ({
+  loadJSON: vi.fn(),
+  saveJSON: vi.fn(),
+}))
+
+describe('usePlaybackProgress', () => {
+  let progress: ReturnType<typeof usePlaybackProgressStore>
+  let media: ReturnType<typeof useMediaControlsStore>
+
+  // Tracks the progress like the app does after loading the lecture
+  const createTestComponent = () => mount({
+    setup() {
+      const { trackPlaybackProgress } = usePlaybackProgress()
+      progress.offerResume()
+      trackPlaybackProgress()
+    },
+    template: '<div></div>',
+  })
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    progress = usePlaybackProgressStore()
+    media = useMediaControlsStore()
+    useContentStore().pageModel = [{ timestamp: 0, image: '', text: 'Intro' }]
+
+    // Watched until 5:00 in an earlier session
+    media.currentTime = 300000
+    progress.save()
+    media.currentTime = 0
+  })
+
+  it('should keep the saved position while the resume offer is unanswered', async () => {
+    const wrapper = createTestComponent()
+    expect(progress.resumeOffer?.time).toBe(300000)
+
+    media.playbackSpeed = 1.5
+    await nextTick()
+    window.dispatchEvent(new Event('pagehide'))
+
+    expect(progress.currentProgress?.time).toBe(300000)
+
+    progress.startOver()
+    window.dispatchEvent(new Event('pagehide'))
+    expect(progress.currentProgress?.time).toBe(0)
+
+    wrapper.unmount()
+  })
+
+  it('should save once the position was resumed automatically', () => {
+    useSettingsStore().autoResume = true
+    const wrapper = createTestComponent()
+
+    media.currentTime = 310000
+    window.dispatchEvent(new Event('pagehide'))
+
+    expect(progress.currentProgress?.time).toBe(310000)
+
+    wrapper.unmount()
+  })
+})
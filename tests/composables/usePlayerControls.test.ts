@@ -251,4 +251,57 @@ describe('usePlayerControls', () => {
       expect(mockMediaStore.seekTo).toHaveBeenCalledTimes(4)
     })
   })
+
+  describe('toggleLoopCurrentPage', () => {
+    beforeEach(() => {
+      Object.assign(mockContentStore, { pageNumberAt: vi.fn().mockReturnValue(2) })
+      Object.assign(mockMediaStore, {
+        currentTime: 2500,
+        totalTime: 6000,
+        loopStart: null,
+        loopEnd: null,
+        setLoop: vi.fn().mockReturnValue(true),
+        clearLoop: vi.fn(),
+      })
+    })
+
+    it('should loop the time range of the current page', () => {
+      expect(playerControls.toggleLoopCurrentPage()).toBe(true)
+
+      expect(mockContentStore.pageNumberAt).toHaveBeenCalledWith(2500)
+      expect(mockMediaStore.setLoop).toHaveBeenCalledWith(2000, 3000)
+    })
+
+    it('should loop the last page until the end of the video', () => {
+      vi.mocked(mockContentStore.pageNumberAt).mockReturnValue(5)
+
+      playerControls.toggleLoopCurrentPage()
+
+      expect(mockMediaStore.setLoop).toHaveBeenCalledWith(5000, 6000)
+    })
+
+    it('should not loop the last page before the duration is known', () => {
+      vi.mocked(mockContentStore.pageNumberAt).mockReturnValue(5)
+      Object.assign(mockMediaStore, { totalTime: 0 })
+
+      expect(playerControls.toggleLoopCurrentPage()).toBe(false)
+      expect(mockMediaStore.setLoop).not.toHaveBeenCalled()
+    })
+
+    it('should clear the loop if the page is already looped', () => {
+      Object.assign(mockMediaStore, { loopStart: 2000, loopEnd: 3000 })
+
+      expect(playerControls.toggleLoopCurrentPage()).toBe(false)
+
+      expect(mockMediaStore.clearLoop).toHaveBeenCalled()
+      expect(mockMediaStore.setLoop).not.toHaveBeenCalled()
+    })
+
+    it('should do nothing without pages', () => {
+      mockContentStore.pageModel = []
+
+      expect(playerControls.toggleLoopCurrentPage()).toBe(false)
+      expect(mockMediaStore.setLoop).not.toHaveBeenCalled()
+    })
+  })
 })
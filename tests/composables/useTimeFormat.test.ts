@@ -2,7 +2,7 @@ import { useTimeFormat } from '@/composables/useTimeFormat'
 import { describe, expect, it } from 'vitest'
 
 describe('useTimeFormat', () => {
-  const { formatHMM, formatHHMMSS } = useTimeFormat()
+  const { formatHMM, formatHHMMSS, parseHHMMSS } = useTimeFormat()
 
   describe('formatHMM', () => {
     it('should format minutes only when hours is 0', () => {
@@ -139,4 +139,32 @@ describe('useTimeFormat', () => {
       expect(formatHHMMSS(11720000)).toBe('3:15:20')
     })
   })
+
+  describe('parseHHMMSS', () => {
+    it('should parse minutes and seconds', () => {
+      expect(parseHHMMSS('0:00')).toBe(0)
+      expect(parseHHMMSS('5:30')).toBe(330000)
+      expect(parseHHMMSS('30:00')).toBe(1800000)
+    })
+
+    it('should parse hours, minutes and seconds', () => {
+      expect(parseHHMMSS('1:05:00')).toBe(3900000)
+      expect(parseHHMMSS(' 2:15:30 ')).toBe(8130000)
+    })
+
+    it('should round-trip formatted times', () => {
+      for (const ms of [0, 59000, 2700000, 11720000]) {
+        expect(parseHHMMSS(formatHHMMSS(ms))).toBe(ms)
+      }
+    })
+
+    it('should reject invalid times', () => {
+      expect(parseHHMMSS('')).toBeNull()
+      expect(parseHHMMSS('90')).toBeNull()
+      expect(parseHHMMSS('1:5')).toBeNull()
+      expect(parseHHMMSS('1:60')).toBeNull()
+      expect(parseHHMMSS('1:75:00')).toBeNull()
+      expect(parseHHMMSS('a:bc')).toBeNull()
+    })
+  })
 })
@@ -0,0 +1,158 @@
+import { useAnnotationsStore } from '@/stores/annotations'
+import { useContentStore } from '@/stores/contentStore'
+import { useMediaControlsStore } from '@/stores/mediaControls'
+import { createPinia, setActivePinia } from 'pinia'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+// Mock the storage utilities
+vi.mock('@/utils/storage', () => ({
+  loadJSON: vi.fn(),
+  saveJSON: vi.fn(),
+}))
+
+import { loadJSON, saveJSON } from '@/utils/storage'
+
+describe('AnnotationsStore', () => {
+  let store: ReturnType<typeof useAnnotationsStore>
+  let content: ReturnType<typeof useContentStore>
+  let media: ReturnType<typeof useMediaControlsStore>
+
+  // Switches to the lecture with the given page texts, one page per minute
+  const openLecture = (...texts: string[]) => {
+    content.pageModel = texts.map((text, index) => ({ timestamp: index * 60000, image: '', text }))
+  }
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    store = useAnnotationsStore()
+    content = useContentStore()
+    media = useMediaControlsStore()
+    openLecture('Introduction', 'Fourier series', 'Fourier transform')
+    vi.clearAllMocks()
+  })
+
+  describe('addStroke', () => {
+    it('should add a stroke with the current tool and colour to the current page', () => {
+      media.currentPage = 2
+      store.tool = 'highlighter'
+      store.setColor('#2563eb')
+
+      const stroke = store.addStroke([[0.123456, 0.5], [1.2, -0.1]])
+
+      expect(stroke).toEqual({
+        id: expect.any(String),
+        tool: 'highlighter',
+        color: '#2563eb',
+        width: 0.02,
+        points: [[0.1235, 0.5], [1, 0]],
+        createdAt: expect.any(Number),
+      })
+      expect(store.strokes).toEqual([stroke])
+      expect(store.annotatedPages).toEqual([2])
+      expect(saveJSON).toHaveBeenLastCalledWith('app:annotations', { lectures: store.lectures })
+    })
+
+    it('should show the strokes of a page whenever that page is shown', () => {
+      store.addStroke([[0.1, 0.1]], 1)
+      store.addStroke([[0.2, 0.2]], 3)
+
+      media.currentPage = 3
+      expect(store.strokes.map(stroke => stroke.points)).toEqual([[[0.2, 0.2]]])
+
+      media.currentPage = 1
+      expect(store.strokes.map(stroke => stroke.points)).toEqual([[[0.1, 0.1]]])
+    })
+
+    it('should not add empty strokes or eraser strokes', () => {
+      expect(store.addStroke([])).toBeUndefined()
+
+      store.tool = 'eraser'
+      expect(store.addStroke([[0.5, 0.5]])).toBeUndefined()
+      expect(store.lectures).toEqual({})
+    })
+
+    it('should store annotations per lecture', () => {
+      store.addStroke([[0.1, 0.1]])
+      openLecture('Control')
+
+      expect(store.strokes).toEqual([])
+
+      store.addStroke([[0.1, 0.1]])
+      expect(Object.keys(store.lectures)).toHaveLength(2)
+    })
+  })
+
+  describe('removeStroke, undo and clearPage', () => {
+    it('should remove a stroke', () => {
+      const first = store.addStroke([[0.1, 0.1]])!
+      const second = store.addStroke([[0.2, 0.2]])!
+
+      store.removeStroke(first.id)
+
+      expect(store.strokes).toEqual([second])
+    })
+
+    it('should undo the last stroke of the page', () => {
+      const first = store.addStroke([[0.1, 0.1]])!
+      store.addStroke([[0.2, 0.2]])
+
+      store.undo()
+
+      expect(store.strokes).toEqual([first])
+    })
+
+    it('should clear a page and drop empty lectures', () => {
+      store.addStroke([[0.1, 0.1]])
+      store.addStroke([[0.2, 0.2]])
+
+      store.clearPage()
+
+      expect(store.strokes).toEqual([])
+      expect(store.lectures).toEqual({})
+    })
+
+    it('should keep other pages when clearing a page', () => {
+      store.addStroke([[0.1, 0.1]], 1)
+      store.addStroke([[0.2, 0.2]], 2)
+
+      store.clearPage(1)
+
+      expect(store.annotatedPages).toEqual([2])
+    })
+  })
+
+  describe('setColor', () => {
+    it('should switch from the eraser back to the pen', () => {
+      store.tool = 'eraser'
+
+      store.setColor('#16a34a')
+
+      expect(store.tool).toBe('pen')
+      expect(store.color).toBe('#16a34a')
+    })
+  })
+
+  describe('loadFromStorage', () => {
+    it('should load valid annotations', () => {
+      const stroke = { id: 'a', tool: 'pen', color: '#000000', width: 0.003, points: [[0.5, 0.5]], createdAt: 0 }
+      vi.mocked(loadJSON).mockReturnValue({ lectures: { [content.lectureKey]: { 1: [stroke] } } })
+
+      expect(store.loadFromStorage()).toBe(true)
+      expect(store.strokes).toEqual([stroke])
+    })
+
+    it('should ignore invalid annotations', () => {
+      vi.mocked(loadJSON).mockReturnValue({ lectures: { a: { 1: [{ id: 'a', tool: 'brush' }] } } })
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      expect(store.loadFromStorage()).toBe(false)
+      expect(store.lectures).toEqual({})
+    })
+
+    it('should return false without stored annotations', () => {
+      vi.mocked(loadJSON).mockReturnValue(null)
+
+      expect(store.loadFromStorage()).toBe(false)
+    })
+  })
+})
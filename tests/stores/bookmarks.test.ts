@@ -0,0 +1,147 @@
+import { useBookmarksStore } from '@/stores/bookmarks'
+import { useContentStore } from '@/stores/contentStore'
+import { useMediaControlsStore } from '@/stores/mediaControls'
+import { createPinia, setActivePinia } from 'pinia'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+// Mock the storage utilities
+vi.mock('@/utils/storage', () => ({
+  loadJSON: vi.fn(),
+  saveJSON: vi.fn(),
+}))
+
+import { loadJSON, saveJSON } from '@/utils/storage'
+
+describe('BookmarksStore', () => {
+  let store: ReturnType<typeof useBookmarksStore>
+  let content: ReturnType<typeof useContentStore>
+  let media: ReturnType<typeof useMediaControlsStore>
+
+  // Switches to the lecture with the given page texts, one page per minute
+  const openLecture = (...texts: string[]) => {
+    content.pageModel = texts.map((text, index) => ({ timestamp: index * 60000, image: '', text }))
+  }
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    store = useBookmarksStore()
+    content = useContentStore()
+    media = useMediaControlsStore()
+    openLecture('Introduction\nOrganization', '', 'Fourier transform')
+    vi.clearAllMocks()
+  })
+
+  describe('add', () => {
+    it('should bookmark the current position with the page and its first line as label', () => {
+      media.currentTime = 75500.4
+
+      const bookmark = store.add()
+
+      expect(bookmark).toEqual({
+        id: expect.any(String),
+        time: 75500,
+        page: 2,
+        label: 'Bookmark at 1:15',
+        createdAt: expect.any(Number),
+      })
+      expect(store.add(10000).label).toBe('Introduction')
+      expect(saveJSON).toHaveBeenLastCalledWith('app:bookmarks', store.$state)
+    })
+
+    it('should keep bookmarks sorted by time', () => {
+      store.add(150000)
+      store.add(20000)
+      store.add(90000)
+
+      expect(store.bookmarks.map(bookmark => bookmark.time)).toEqual([20000, 90000, 150000])
+      expect(new Set(store.bookmarks.map(bookmark => bookmark.id)).size).toBe(3)
+    })
+
+    it('should not add a bookmark next to an existing one', () => {
+      const first = store.add(20000)
+
+      expect(store.add(20600)).toEqual(first)
+      expect(store.bookmarks).toHaveLength(1)
+    })
+
+    it('should shorten long labels', () => {
+      openLecture('A very long slide title that goes on and on until it no longer fits the list')
+
+      const label = store.add(0).label
+
+      expect(label).toHaveLength(60)
+      expect(label.endsWith('…')).toBe(true)
+    })
+
+    it('should store bookmarks per lecture', () => {
+      store.add(20000)
+      openLecture('Control')
+
+      expect(store.bookmarks).toEqual([])
+
+      store.add(30000)
+      expect(Object.keys(store.lectures)).toHaveLength(2)
+    })
+  })
+
+  describe('rename and remove', () => {
+    it('should rename a bookmark', () => {
+      const { id } = store.add(20000)
+
+      store.rename(id, '  Exam topic  ')
+
+      expect(store.bookmarks[0]?.label).toBe('Exam topic')
+    })
+
+    it('should ignore blank labels', () => {
+      const { id } = store.add(20000)
+
+      store.rename(id, '   ')
+
+      expect(store.bookmarks[0]?.label).toBe('Introduction')
+    })
+
+    it('should remove a bookmark and drop empty lectures', () => {
+      const { id } = store.add(20000)
+
+      store.remove(id)
+
+      expect(store.bookmarks).toEqual([])
+      expect(store.lectures).toEqual({})
+    })
+  })
+
+  describe('bookmarkCountsByPage', () => {
+    it('should count bookmarks per page', () => {
+      store.add(10000)
+      store.add(30000)
+      store.add(130000)
+
+      expect(store.bookmarkCountsByPage).toEqual(new Map([[1, 2], [3, 1]]))
+    })
+  })
+
+  describe('loadFromStorage', () => {
+    it('should load valid bookmarks', () => {
+      const bookmark = { id: 'a', time: 1000, page: 1, label: 'Start', createdAt: 0 }
+      vi.mocked(loadJSON).mockReturnValue({ lectures: { [content.lectureKey]: [bookmark] } })
+
+      expect(store.loadFromStorage()).toBe(true)
+      expect(store.bookmarks).toEqual([bookmark])
+    })
+
+    it('should ignore invalid bookmarks', () => {
+      vi.mocked(loadJSON).mockReturnValue({ lectures: { a: [{ id: 'a', time: 1000 }] } })
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      expect(store.loadFromStorage()).toBe(false)
+      expect(store.lectures).toEqual({})
+    })
+
+    it('should return false without stored bookmarks', () => {
+      vi.mocked(loadJSON).mockReturnValue(null)
+
+      expect(store.loadFromStorage()).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,120 @@
+import { useCaptionsStore } from '@/stores/captions'
+import { useMediaControlsStore } from '@/stores/mediaControls'
+import { createPinia, setActivePinia } from 'pinia'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const vtt = (text: string) => `WEBVTT\n\n00:01.000 --> 00:03.000\n${text}\n`
+
+describe('CaptionsStore', () => {
+  let store: ReturnType<typeof useCaptionsStore>
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    store = useCaptionsStore()
+    vi.clearAllMocks()
+  })
+
+  describe('initial state', () => {
+    it('should have captions turned off', () => {
+      expect(store.tracks).toEqual([])
+      expect(store.activeLanguage).toBeNull()
+      expect(store.activeTrack).toBeUndefined()
+      expect(store.activeCues).toEqual([])
+    })
+  })
+
+  describe('setTracks', () => {
+    it('should keep captions off without a default track', async () => {
+      await store.setTracks([{ language: 'en', vtt: vtt('Hello') }])
+
+      expect(store.tracks).toHaveLength(1)
+      expect(store.activeLanguage).toBeNull()
+    })
+
+    it('should show the default track', async () => {
+      await store.setTracks([
+        { language: 'en', vtt: vtt('Hello') },
+        { language: 'de', vtt: vtt('Hallo'), default: true },
+      ])
+
+      expect(store.activeLanguage).toBe('de')
+      expect(store.cues).toEqual([{ start: 1000, end: 3000, text: 'Hallo' }])
+    })
+  })
+
+  describe('selectTrack', () => {
+    beforeEach(async () => {
+      await store.setTracks([
+        { language: 'en', vtt: vtt('Hello') },
+        { language: 'de', src: '/lecture.de.vtt' },
+      ])
+    })
+
+    it('should load embedded cues', async () => {
+      await store.selectTrack('en')
+
+      expect(store.activeTrack?.language).toBe('en')
+      expect(store.cues[0]?.text).toBe('Hello')
+    })
+
+    it('should fetch sidecar files once', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        text: () => Promise.resolve(vtt('Hallo')),
+      })
+
+      await store.selectTrack('de')
+      await store.selectTrack('en')
+      await store.selectTrack('de')
+
+      expect(fetch).toHaveBeenCalledTimes(1)
+      expect(store.cues[0]?.text).toBe('Hallo')
+    })
+
+    it('should turn captions off', async () => {
+      await store.selectTrack('en')
+      await store.selectTrack(null)
+
+      expect(store.activeLanguage).toBeNull()
+      expect(store.cues).toEqual([])
+    })
+
+    it('should report tracks that fail to load', async () => {
+      global.fetch = vi.fn().mockRejectedValue(new Error('Network error'))
+
+      await store.selectTrack('de')
+
+      expect(store.activeLanguage).toBeNull()
+      expect(store.error).toBe('The captions could not be loaded.')
+      expect(store.loading).toBe(false)
+    })
+
+    it('should keep the latest selection when loads overlap', async () => {
+      let resolveFetch: (value: unknown) => void = () => {}
+      global.fetch = vi.fn().mockReturnValue(new Promise(resolve => {
+        resolveFetch = resolve
+      }))
+
+      const pending = store.selectTrack('de')
+      await store.selectTrack('en')
+      resolveFetch({ ok: true, text: () => Promise.resolve(vtt('Hallo')) })
+      await pending
+
+      expect(store.activeLanguage).toBe('en')
+      expect(store.cues[0]?.text).toBe('Hello')
+    })
+  })
+
+  describe('activeCues', () => {
+    it('should follow the playback time', async () => {
+      const media = useMediaControlsStore()
+      await store.setTracks([{ language: 'en', vtt: vtt('Hello'), default: true }])
+
+      media.currentTime = 500
+      expect(store.activeCues).toEqual([])
+
+      media.currentTime = 2000
+      expect(store.activeCues.map(c => c.text)).toEqual(['Hello'])
+    })
+  })
+})
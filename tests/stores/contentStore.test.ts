@@ -1,14 +1,25 @@
+import { PageModelDataSchema } from '@/schemas/pageModel'
 import { useContentStore } from '@/stores/contentStore'
 import { useMediaControlsStore } from '@/stores/mediaControls'
+import { useSettingsStore } from '@/stores/settings'
+import type { SearchResult } from '@/utils/search'
 import { createPinia, setActivePinia } from 'pinia'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 
-// Mock the media controls store
-vi.mock('@/stores/mediaControls', () => ({
-  useMediaControlsStore: vi.fn(() => ({
-    seekTo: vi.fn(),
-  })),
-}))
+// Mock the media controls store, sharing one instance so seeks can be asserted
+vi.mock('@/stores/mediaControls', () => {
+  const mediaStore = { seekTo: vi.fn() }
+  return {
+    useMediaControlsStore: vi.fn(() => mediaStore),
+  }
+})
+
+/**
+ * Creates a slide search result for the given page.
+ */
+function slideResult(page: number, time = page * 1000, score = 1): SearchResult {
+  return { source: 'slide', time, page, score, snippet: { before: '', match: 'test', after: '' } }
+}
 
 describe('ContentStore', () => {
   let store: ReturnType<typeof useContentStore>
@@ -36,6 +47,8 @@ describe('ContentStore', () => {
       expect(store.videoSource).toBe('/dev.mp4') // DEV mode
       expect(store.searchMatches).toEqual([])
       expect(store.currentMatchIndex).toBe(-1)
+      expect(store.metadata).toEqual({})
+      expect(store.loadError).toBeNull()
     })
   })
 
@@ -65,6 +78,19 @@ describe('ContentStore', () => {
       })
     })
 
+    it('should keep recorded events of pages', async () => {
+      const events = [{ type: 'clear', time: 1500 }]
+      global.fetch = vi.fn().mockResolvedValue({
+        text: () => Promise.resolve(JSON.stringify([{ time: 1000, events }, { time: 2000 }])),
+      })
+
+      await store.load()
+
+      expect(store.pageModel[0]?.events).toEqual(events)
+      expect(store.pageModel[1]).not.toHaveProperty('events')
+      expect(store.hasRecordedEvents).toBe(true)
+    })
+
     it('should handle empty text content', async () => {
       const mockData = [
         { time: 1000, text: '', thumb: 'data:image/png;base64,abc123' },
@@ -87,6 +113,273 @@ describe('ContentStore', () => {
       await store.load()
 
       expect(store.pageModel).toEqual([])
+      expect(store.loadError).toBe('The lecture data could not be loaded.')
+    })
+
+    it('should load the versioned envelope with lecture metadata', async () => {
+      const mockData = {
+        version: 1,
+        title: 'Signals and Systems',
+        lecturer: 'Dr. Example',
+        recordingDate: '2025-04-14',
+        language: 'de',
+        pages: [
+          { time: 0, text: btoa('Intro'), thumb: 'data:image/png;base64,abc123' },
+        ],
+      }
+
+      global.fetch = vi.fn().mockResolvedValue({
+        text: () => Promise.resolve(JSON.stringify(mockData)),
+      })
+
+      await store.load()
+
+      expect(store.loadError).toBeNull()
+      expect(store.metadata).toEqual({
+        title: 'Signals and Systems',
+        lecturer: 'Dr. Example',
+        recordingDate: '2025-04-14',
+        language: 'de',
+      })
+      expect(store.pageModel).toEqual([
+        { timestamp: 0, text: 'Intro', image: 'data:image/png;base64,abc123' },
+      ])
+    })
+
+    it('should report malformed data instead of throwing', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        text: () => Promise.resolve(JSON.stringify([{ time: 'soon', text: 1 }])),
+      })
+
+      await expect(store.load()).resolves.toBeUndefined()
+
+      expect(store.pageModel).toEqual([])
+      expect(store.loadError).toContain('The lecture data is malformed')
+    })
+
+    it('should report invalid JSON', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        text: () => Promise.resolve('{ not json'),
+      })
+
+      await store.load()
+
+      expect(store.loadError).toBe('The lecture data could not be loaded.')
+    })
+
+    it('should report undecodable page text', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        text: () => Promise.resolve(JSON.stringify([{ time: 0, text: '%%%', thumb: '' }])),
+      })
+
+      await store.load()
+
+      expect(store.pageModel).toEqual([])
+      expect(store.loadError).toContain('could not be decoded')
+    })
+
+    it('should clear a previous error on successful load', async () => {
+      store.setLoadError('Previous failure')
+
+      global.fetch = vi.fn().mockResolvedValue({
+        text: () => Promise.resolve(JSON.stringify([])),
+      })
+
+      await store.load()
+
+      expect(store.loadError).toBeNull()
+    })
+  })
+
+  describe('video sources', () => {
+    const sources = [
+      { src: '/lecture-720.mp4', type: 'video/mp4; codecs="avc1.4d401f"', height: 720, bitrate: 1_500_000 },
+      { src: '/lecture-1080.webm', type: 'video/webm; codecs="av01.0.08M.08"', height: 1080 },
+      { src: '/lecture-1080.mp4', type: 'video/mp4; codecs="avc1.640028"', height: 1080 },
+    ]
+
+    const loadWithSources = async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        text: () => Promise.resolve(JSON.stringify({ version: 1, pages: [], sources })),
+      })
+      await store.load()
+    }
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('should pick the best playable source on load', async () => {
+      vi.spyOn(HTMLMediaElement.prototype, 'canPlayType').mockImplementation((type: string) =>
+        type.includes('av01') ? '' : 'probably'
+      )
+
+      await loadWithSources()
+
+      expect(store.videoSources).toEqual(sources)
+      expect(store.videoSource).toBe('/lecture-1080.mp4')
+      expect(store.currentVideoSource).toEqual(sources[2])
+      expect(store.playableVideoSources.map(s => s.src)).toEqual(['/lecture-720.mp4', '/lecture-1080.mp4'])
+    })
+
+    it('should prefer confident answers over higher resolutions', async () => {
+      vi.spyOn(HTMLMediaElement.prototype, 'canPlayType').mockImplementation((type: string) =>
+        type.includes('avc1.4d401f') ? 'probably' : 'maybe'
+      )
+
+      await loadWithSources()
+
+      expect(store.videoSource).toBe('/lecture-720.mp4')
+    })
+
+    it('should fall back to the first source when none reports playable', async () => {
+      vi.spyOn(HTMLMediaElement.prototype, 'canPlayType').mockReturnValue('')
+
+      await loadWithSources()
+
+      expect(store.videoSource).toBe('/lecture-720.mp4')
+    })
+
+    it('should keep the injected source without declared sources', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        text: () => Promise.resolve(JSON.stringify([])),
+      })
+
+      await store.load()
+
+      expect(store.videoSource).toBe('/dev.mp4')
+      expect(store.currentVideoSource).toBeUndefined()
+    })
+
+    it('should preserve playback state when switching sources', () => {
+      const prepareSourceChange = vi.fn()
+      vi.mocked(useMediaControlsStore).mockReturnValueOnce(
+        { prepareSourceChange } as unknown as ReturnType<typeof useMediaControlsStore>,
+      )
+      store.videoSources = sources
+
+      store.selectVideoSource(sources[1]!)
+
+      expect(prepareSourceChange).toHaveBeenCalledTimes(1)
+      expect(store.videoSource).toBe('/lecture-1080.webm')
+    })
+
+    it('should ignore selecting the current source', () => {
+      const prepareSourceChange = vi.fn()
+      vi.mocked(useMediaControlsStore).mockReturnValueOnce(
+        { prepareSourceChange } as unknown as ReturnType<typeof useMediaControlsStore>,
+      )
+      store.videoSource = sources[0]!.src
+
+      store.selectVideoSource(sources[0]!)
+
+      expect(prepareSourceChange).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('transcript', () => {
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('should sort embedded transcript cues', async () => {
+      const transcript = [
+        { start: 4000, end: 6000, text: 'Second' },
+        { start: 0, end: 4000, text: 'First' },
+      ]
+      global.fetch = vi.fn().mockResolvedValue({
+        text: () => Promise.resolve(JSON.stringify({ version: 1, pages: [], transcript })),
+      })
+
+      await store.load()
+
+      expect(store.transcript.map(cue => cue.text)).toEqual(['First', 'Second'])
+    })
+
+    it('should load the transcript from a WebVTT file', async () => {
+      global.fetch = vi.fn()
+        .mockResolvedValueOnce({
+          text: () => Promise.resolve(JSON.stringify({ version: 1, pages: [], transcript: { src: '/lecture.vtt' } })),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          text: () => Promise.resolve('WEBVTT\n\n00:00.000 --> 00:02.000\nHello'),
+        })
+
+      await store.load()
+
+      expect(global.fetch).toHaveBeenLastCalledWith('/lecture.vtt')
+      expect(store.transcript).toEqual([{ start: 0, end: 2000, text: 'Hello' }])
+    })
+
+    it('should leave the transcript empty when the file cannot be loaded', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      global.fetch = vi.fn()
+        .mockResolvedValueOnce({
+          text: () => Promise.resolve(JSON.stringify({ version: 1, pages: [], transcript: { src: '/missing.vtt' } })),
+        })
+        .mockResolvedValueOnce({ ok: false, status: 404, statusText: 'Not Found' })
+
+      await store.load()
+
+      expect(store.transcript).toEqual([])
+      expect(store.loadError).toBeNull()
+    })
+  })
+
+  describe('page model schema', () => {
+    it('should migrate bare page arrays to the current envelope', () => {
+      const result = PageModelDataSchema.safeParse([{ time: 0, text: '', thumb: '' }])
+
+      expect(result.success).toBe(true)
+      expect(result.data).toEqual({
+        version: 1,
+        pages: [{ time: 0, text: '', thumb: '' }],
+      })
+    })
+
+    it('should default missing text and thumbnail', () => {
+      const result = PageModelDataSchema.safeParse({ version: 1, pages: [{ time: 500 }] })
+
+      expect(result.success).toBe(true)
+      expect(result.data?.pages[0]).toEqual({ time: 500, text: '', thumb: '' })
+    })
+
+    it('should reject unknown format versions', () => {
+      const result = PageModelDataSchema.safeParse({ version: 99, pages: [] })
+
+      expect(result.success).toBe(false)
+    })
+
+    it('should reject negative page times', () => {
+      const result = PageModelDataSchema.safeParse([{ time: -1, text: '', thumb: '' }])
+
+      expect(result.success).toBe(false)
+    })
+
+    it('should accept recorded pen, pointer and zoom events', () => {
+      const events = [
+        { type: 'stroke', tool: 'pen', color: '#0000ff', width: 0.003, points: [[0.1, 0.2, 1000], [0.3, 0.2, 1100]] },
+        { type: 'pointer', points: [[0.5, 0.5, 2000]] },
+        { type: 'zoom', time: 3000, x: 0.25, y: 0.25, width: 0.5, height: 0.5 },
+        { type: 'clear', time: 4000 },
+      ]
+
+      const result = PageModelDataSchema.safeParse({ version: 1, pages: [{ time: 0, events }] })
+
+      expect(result.success).toBe(true)
+      expect(result.data?.pages[0]?.events?.[1]).toEqual({ type: 'pointer', color: '#ff0000', points: [[0.5, 0.5, 2000]] })
+    })
+
+    it('should reject unknown event types and points outside the page', () => {
+      const unknown = { version: 1, pages: [{ time: 0, events: [{ type: 'laser', time: 0 }] }] }
+      const outside = {
+        version: 1,
+        pages: [{ time: 0, events: [{ type: 'pointer', points: [[1.5, 0.5, 0]] }] }],
+      }
+
+      expect(PageModelDataSchema.safeParse(unknown).success).toBe(false)
+      expect(PageModelDataSchema.safeParse(outside).success).toBe(false)
     })
   })
 
@@ -141,16 +434,28 @@ describe('ContentStore', () => {
       store.search('hello')
 
       expect(store.lastQuery).toBe('hello')
-      expect(store.searchMatches).toEqual([0, 3]) // Indices of pages containing "hello"
+      expect(store.searchMatches.map(m => m.page)).toEqual([1, 4]) // Pages containing "hello"
       expect(store.matchesTotal).toBe(2)
       expect(store.matchesCurrent).toBe(1)
       expect(store.currentMatchIndex).toBe(0)
     })
 
+    it('should build the search index after loading', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        text: () => Promise.resolve(JSON.stringify([{ time: 0, text: btoa('Loaded page'), thumb: '' }])),
+      })
+
+      await store.load()
+
+      expect(store.searchIndex?.documents).toHaveLength(1)
+      store.search('loaded')
+      expect(store.matchesTotal).toBe(1)
+    })
+
     it('should be case insensitive', () => {
       store.search('HELLO')
 
-      expect(store.searchMatches).toEqual([0, 3])
+      expect(store.searchMatches.map(m => m.page)).toEqual([1, 4])
       expect(store.matchesTotal).toBe(2)
     })
 
@@ -167,10 +472,177 @@ describe('ContentStore', () => {
     it('should seek to first match when found', () => {
       store.search('test')
 
-      // The search should call seekToMatch which calls seekTo
-      // But we need to set up the pageModel properly first
       expect(store.matchesTotal).toBe(2)
       expect(store.currentMatchIndex).toBe(0)
+      expect(mockMediaStore.seekTo).toHaveBeenCalledWith(2000)
+    })
+
+    it('should include transcript cues in time order', () => {
+      store.transcript = [
+        { start: 1500, end: 1900, text: 'Say hello to the class' },
+        { start: 2500, end: 2900, text: 'Nothing here' },
+      ]
+
+      store.search('hello')
+
+      expect(store.searchMatches.map(m => [m.source, m.time, m.page])).toEqual([
+        ['slide', 1000, 1],
+        ['transcript', 1500, 1],
+        ['slide', 4000, 4],
+      ])
+      expect(store.searchMatches[1]!.snippet).toEqual({ before: 'Say ', match: 'hello', after: ' to the class' })
+    })
+
+    it('should seek to the exact cue time', () => {
+      store.transcript = [{ start: 500, end: 900, text: 'Welcome' }]
+
+      store.search('welcome')
+
+      expect(mockMediaStore.seekTo).toHaveBeenCalledWith(500)
+    })
+  })
+
+  describe('search query language', () => {
+    beforeEach(() => {
+      store.pageModel = [
+        { timestamp: 1000, text: 'Überblick: Sortieralgorithmen', image: 'thumb1' },
+        { timestamp: 2000, text: 'Der Algorithmus im Detail', image: 'thumb2' },
+        { timestamp: 3000, text: 'Algorithmus und Laufzeit', image: 'thumb3' },
+      ]
+    })
+
+    it('should ignore diacritics', () => {
+      store.search('uberblick')
+
+      expect(store.searchMatches.map(m => m.page)).toEqual([1])
+    })
+
+    it('should combine terms, phrases and exclusions', () => {
+      store.search('algorithmus -laufzeit')
+      expect(store.searchMatches.map(m => m.page)).toEqual([2])
+
+      store.search('"im detail" algorithmus')
+      expect(store.searchMatches.map(m => m.page)).toEqual([2])
+    })
+
+    it('should apply page and time filters', () => {
+      store.search('algorithmus page:3')
+      expect(store.searchMatches.map(m => m.page)).toEqual([3])
+
+      store.search('algorithmus before:0:03')
+      expect(store.searchMatches.map(m => m.page)).toEqual([2])
+    })
+
+    it('should use the fuzzy search setting', () => {
+      store.search('algoritmus')
+      expect(store.matchesTotal).toBe(0)
+
+      useSettingsStore().fuzzySearch = true
+      store.search('algoritmus')
+      expect(store.searchMatches.map(m => m.page)).toEqual([2, 3])
+    })
+
+    it('should rank word starts above matches inside words', () => {
+      store.search('algorithm')
+
+      expect(store.searchMatches.map(m => m.page)).toEqual([2, 3, 1])
+      expect(mockMediaStore.seekTo).toHaveBeenCalledWith(2000)
+    })
+  })
+
+  describe('pageNumberAt', () => {
+    it('should return the page shown at a time', () => {
+      store.pageModel = [
+        { timestamp: 0, image: '', text: 'one' },
+        { timestamp: 60000, image: '', text: 'two' },
+      ]
+
+      expect(store.pageNumberAt(0)).toBe(1)
+      expect(store.pageNumberAt(59999)).toBe(1)
+      expect(store.pageNumberAt(60000)).toBe(2)
+    })
+
+    it('should return the first page without pages', () => {
+      expect(store.pageNumberAt(5000)).toBe(1)
+    })
+  })
+
+  describe('lectureKey', () => {
+    it('should combine the video file with a hash of the pages', () => {
+      expect(store.lectureKey).toMatch(/^\/dev\.mp4\|[0-9a-f]{8}$/)
+
+      store.videoSources = [{ src: '/lecture-1080.mp4', type: 'video/mp4' }]
+      expect(store.lectureKey).toMatch(/^\/lecture-1080\.mp4\|[0-9a-f]{8}$/)
+    })
+
+    it('should distinguish lectures with the same video file', () => {
+      store.pageModel = [{ timestamp: 0, image: '', text: 'Signals' }]
+      const signals = store.lectureKey
+
+      store.pageModel = [{ timestamp: 0, image: '', text: 'Control' }]
+      expect(store.lectureKey).not.toBe(signals)
+
+      store.pageModel = [{ timestamp: 0, image: 'other-thumbnail', text: 'Signals' }]
+      expect(store.lectureKey).toBe(signals)
+    })
+
+    it('should not change with the selected video quality', () => {
+      store.videoSources = [
+        { src: '/lecture-1080.mp4', type: 'video/mp4' },
+        { src: '/lecture-720.mp4', type: 'video/mp4' },
+      ]
+      const key = store.lectureKey
+
+      store.videoSource = '/lecture-720.mp4'
+      expect(store.lectureKey).toBe(key)
+    })
+  })
+
+  describe('match getters', () => {
+    it('should return the current match', () => {
+      store.searchMatches = [slideResult(1), slideResult(2)]
+      expect(store.currentMatch).toBeUndefined()
+
+      store.currentMatchIndex = 1
+      expect(store.currentMatch?.page).toBe(2)
+    })
+
+    it('should count matches per page', () => {
+      store.searchMatches = [
+        slideResult(1),
+        { ...slideResult(1, 1500), source: 'transcript' },
+        slideResult(3),
+      ]
+
+      expect([...store.matchCountsByPage]).toEqual([[1, 2], [3, 1]])
+    })
+  })
+
+  describe('setSearchOrder', () => {
+    beforeEach(() => {
+      store.lastQuery = 'test'
+      store.searchMatches = [slideResult(3, 3000, 2), slideResult(1, 1000, 1), slideResult(2, 2000, 1)]
+      store.matchesTotal = 3
+      store.currentMatchIndex = 0
+      store.matchesCurrent = 3 // Position in time order
+    })
+
+    it('should sort results by time and keep the current result', () => {
+      store.setSearchOrder('time')
+
+      expect(store.searchOrder).toBe('time')
+      expect(store.searchMatches.map(m => m.page)).toEqual([1, 2, 3])
+      expect(store.currentMatchIndex).toBe(2)
+      expect(store.matchesCurrent).toBe(3)
+      expect(mockMediaStore.seekTo).not.toHaveBeenCalled()
+    })
+
+    it('should sort results by relevance again', () => {
+      store.setSearchOrder('time')
+      store.setSearchOrder('relevance')
+
+      expect(store.searchMatches.map(m => m.page)).toEqual([3, 1, 2])
+      expect(store.currentMatchIndex).toBe(0)
     })
   })
 
@@ -179,7 +651,7 @@ describe('ContentStore', () => {
       store.lastQuery = 'test'
       store.matchesTotal = 2
       store.matchesCurrent = 1
-      store.searchMatches = [0, 1]
+      store.searchMatches = [slideResult(1), slideResult(2)]
       store.currentMatchIndex = 0
 
       store.cancelSearch()
@@ -205,7 +677,7 @@ describe('ContentStore', () => {
     beforeEach(() => {
       store.lastQuery = 'test'
       store.matchesTotal = 3
-      store.searchMatches = [0, 2, 4]
+      store.searchMatches = [slideResult(1), slideResult(3), slideResult(5)]
       store.currentMatchIndex = 0
       store.matchesCurrent = 1
     })
@@ -215,8 +687,7 @@ describe('ContentStore', () => {
 
       expect(store.currentMatchIndex).toBe(1)
       expect(store.matchesCurrent).toBe(2)
-      // The seekToMatch function should be called, but we need to set up pageModel
-      expect(store.searchMatches[1]).toBe(2) // Second match is at index 2
+      expect(mockMediaStore.seekTo).toHaveBeenCalledWith(3000)
     })
 
     it('should wrap around to first match', () => {
@@ -229,6 +700,25 @@ describe('ContentStore', () => {
       expect(store.matchesCurrent).toBe(1)
     })
 
+    it('should step through results in time order while they are listed by relevance', () => {
+      store.searchMatches = [slideResult(5, 5000, 3), slideResult(1, 1000, 2), slideResult(3, 3000, 1)]
+      store.currentMatchIndex = 1 // Page 1, the earliest result
+      store.matchesCurrent = 1
+
+      store.findNext()
+
+      expect(store.currentMatch?.page).toBe(3)
+      expect(store.matchesCurrent).toBe(2)
+      expect(mockMediaStore.seekTo).toHaveBeenCalledWith(3000)
+
+      store.findNext()
+      expect(store.currentMatch?.page).toBe(5)
+      expect(store.matchesCurrent).toBe(3)
+
+      store.findPrev()
+      expect(store.currentMatch?.page).toBe(3)
+    })
+
     it('should not work without active search', () => {
       store.lastQuery = ''
       store.findNext()
@@ -241,7 +731,7 @@ describe('ContentStore', () => {
     beforeEach(() => {
       store.lastQuery = 'test'
       store.matchesTotal = 3
-      store.searchMatches = [0, 2, 4]
+      store.searchMatches = [slideResult(1), slideResult(3), slideResult(5)]
       store.currentMatchIndex = 1
       store.matchesCurrent = 2
     })
@@ -251,8 +741,7 @@ describe('ContentStore', () => {
 
       expect(store.currentMatchIndex).toBe(0)
       expect(store.matchesCurrent).toBe(1)
-      // The seekToMatch function should be called, but we need to set up pageModel
-      expect(store.searchMatches[0]).toBe(0) // First match is at index 0
+      expect(mockMediaStore.seekTo).toHaveBeenCalledWith(1000)
     })
 
     it('should wrap around to last match', () => {
@@ -275,20 +764,14 @@ describe('ContentStore', () => {
 
   describe('seekToMatch', () => {
     beforeEach(() => {
-      store.pageModel = [
-        { timestamp: 1000, text: 'test', image: 'thumb1' },
-        { timestamp: 2000, text: 'test', image: 'thumb2' },
-      ]
-      store.searchMatches = [0, 1]
+      store.searchMatches = [slideResult(1), { ...slideResult(1, 1500), source: 'transcript' }]
     })
 
     it('should seek to current match', () => {
       store.currentMatchIndex = 1
       store.seekToMatch()
 
-      // The seekToMatch function should call seekTo with the timestamp
-      // from the pageModel at the current match index
-      expect(store.searchMatches[1]).toBe(1) // Second match is at index 1
+      expect(mockMediaStore.seekTo).toHaveBeenCalledWith(1500)
     })
 
     it('should handle invalid match index', () => {
@@ -306,13 +789,36 @@ describe('ContentStore', () => {
     })
   })
 
+  describe('selectMatch', () => {
+    beforeEach(() => {
+      store.lastQuery = 'test'
+      store.searchMatches = [slideResult(1), slideResult(2)]
+      store.matchesTotal = 2
+    })
+
+    it('should make the result current and seek to it', () => {
+      store.selectMatch(1)
+
+      expect(store.currentMatchIndex).toBe(1)
+      expect(store.matchesCurrent).toBe(2)
+      expect(mockMediaStore.seekTo).toHaveBeenCalledWith(2000)
+    })
+
+    it('should ignore out of bounds indices', () => {
+      store.selectMatch(2)
+
+      expect(store.currentMatchIndex).toBe(-1)
+      expect(mockMediaStore.seekTo).not.toHaveBeenCalled()
+    })
+  })
+
   describe('clear', () => {
     it('should reset all state', () => {
       // Set some state
       store.lastQuery = 'test'
       store.matchesTotal = 2
       store.matchesCurrent = 1
-      store.searchMatches = [0, 1]
+      store.searchMatches = [slideResult(1), slideResult(2)]
       store.currentMatchIndex = 0
 
       store.clear()
@@ -1,4 +1,4 @@
-import { useMediaControlsStore } from '@/stores/mediaControls'
+import { FRAME_DURATION, useMediaControlsStore } from '@/stores/mediaControls'
 import { createPinia, setActivePinia } from 'pinia'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 
@@ -42,6 +42,7 @@ describe('MediaControlsStore', () => {
       expect(store.totalTime).toBe(0)
       expect(store.playbackState).toBe('paused')
       expect(store.seeking).toBe(false)
+      expect(store.switchingSource).toBe(false)
       expect(store.mediaEl).toBe(null)
     })
   })
@@ -486,4 +487,210 @@ describe('MediaControlsStore', () => {
       expect(store.playbackSpeed).toBe(1.5)
     })
   })
+
+  describe('prepareSourceChange', () => {
+    const findListener = (event: string) => {
+      const calls = (mockMediaElement.addEventListener as ReturnType<typeof vi.fn>).mock.calls
+      return calls.filter(([name]) => name === event).at(-1)?.[1] as () => void
+    }
+
+    beforeEach(() => {
+      store.attachMedia(mockMediaElement)
+    })
+
+    it('should do nothing without a media element', () => {
+      store.detachMedia()
+      store.prepareSourceChange()
+
+      expect(store.switchingSource).toBe(false)
+    })
+
+    it('should restore time, rate and play state after the new source loads', () => {
+      mockMediaElement.currentTime = 42
+      Object.assign(mockMediaElement, { paused: false })
+      store.playbackSpeed = 1.5
+
+      store.prepareSourceChange()
+      expect(store.switchingSource).toBe(true)
+
+      // Loading the new source resets the element
+      mockMediaElement.currentTime = 0
+      mockMediaElement.playbackRate = 1
+      findListener('loadedmetadata')()
+
+      expect(mockMediaElement.currentTime).toBe(42)
+      expect(mockMediaElement.playbackRate).toBe(1.5)
+      expect(mockMediaElement.play).toHaveBeenCalled()
+      expect(store.switchingSource).toBe(false)
+    })
+
+    it('should not resume playback when paused', () => {
+      store.prepareSourceChange()
+      findListener('loadedmetadata')()
+
+      expect(mockMediaElement.play).not.toHaveBeenCalled()
+    })
+
+    it('should ignore time and rate changes while switching', () => {
+      const calls = (mockMediaElement.addEventListener as ReturnType<typeof vi.fn>).mock.calls
+      const onTimeUpdate = calls.find(([event]) => event === 'timeupdate')?.[1]
+      const onRateChange = calls.find(([event]) => event === 'ratechange')?.[1]
+      store.currentTime = 42000
+      store.playbackSpeed = 1.5
+
+      store.prepareSourceChange()
+      mockMediaElement.currentTime = 0
+      mockMediaElement.playbackRate = 1
+      onTimeUpdate()
+      onRateChange()
+
+      expect(store.currentTime).toBe(42000)
+      expect(store.playbackSpeed).toBe(1.5)
+    })
+
+    it('should stop switching when the new source fails to load', () => {
+      store.prepareSourceChange()
+      findListener('error')()
+
+      expect(store.switchingSource).toBe(false)
+    })
+  })
+
+  describe('relative seeking', () => {
+    beforeEach(() => {
+      store.attachMedia(mockMediaElement)
+      store.totalTime = 100000
+      mockMediaElement.currentTime = 50
+    })
+
+    it('should seek relative to the media position', () => {
+      store.seekBy(-10000)
+      expect(mockMediaElement.currentTime).toBe(40)
+
+      store.seekBy(5000)
+      expect(mockMediaElement.currentTime).toBe(45)
+    })
+
+    it('should stay within the video', () => {
+      store.seekBy(-60000)
+      expect(store.currentTime).toBe(0)
+
+      store.seekBy(200000)
+      expect(store.currentTime).toBe(100000)
+    })
+
+    it('should seek to a fraction of the duration', () => {
+      store.seekToFraction(0.3)
+      expect(store.currentTime).toBe(30000)
+    })
+
+    it('should step one frame', () => {
+      store.stepFrame(1)
+      expect(store.currentTime).toBeCloseTo(50000 + FRAME_DURATION)
+
+      store.stepFrame(-1)
+      expect(store.currentTime).toBeCloseTo(50000)
+    })
+  })
+
+  describe('A–B loop', () => {
+    let onTimeUpdate: () => void
+    let onEnded: () => void
+
+    beforeEach(() => {
+      store.attachMedia(mockMediaElement)
+      store.totalTime = 100000
+
+      const calls = (mockMediaElement.addEventListener as ReturnType<typeof vi.fn>).mock.calls
+      onTimeUpdate = calls.find(([event]) => event === 'timeupdate')?.[1]
+      onEnded = calls.find(([event]) => event === 'ended')?.[1]
+    })
+
+    function playTo(seconds: number) {
+      mockMediaElement.currentTime = seconds
+      onTimeUpdate()
+    }
+
+    it('should set the loop points from the current time', () => {
+      store.currentTime = 10000
+      store.setLoopStart()
+      expect(store.loopActive).toBe(false)
+
+      store.currentTime = 20000
+      expect(store.setLoopEnd()).toBe(true)
+
+      expect(store.loopStart).toBe(10000)
+      expect(store.loopEnd).toBe(20000)
+      expect(store.loopActive).toBe(true)
+    })
+
+    it('should order the loop points and reject too short loops', () => {
+      expect(store.setLoop(20000, 10000)).toBe(true)
+      expect([store.loopStart, store.loopEnd]).toEqual([10000, 20000])
+
+      expect(store.setLoop(30000, 30100)).toBe(false)
+      expect([store.loopStart, store.loopEnd]).toEqual([10000, 20000])
+    })
+
+    it('should remove the B point when the A point is moved behind it', () => {
+      store.setLoop(10000, 20000)
+      store.setLoopStart(25000)
+
+      expect(store.loopStart).toBe(25000)
+      expect(store.loopEnd).toBeNull()
+    })
+
+    it('should jump back to the A point when playback reaches the B point', () => {
+      store.setLoop(10000, 20000)
+      playTo(19.8)
+      playTo(20.1)
+
+      expect(mockMediaElement.currentTime).toBe(10)
+      expect(store.currentTime).toBe(10000)
+      expect(store.loopCount).toBe(1)
+    })
+
+    it('should not jump back after seeking past the B point', () => {
+      store.setLoop(10000, 20000)
+      playTo(15)
+      store.seekTo(50000)
+      playTo(50.2)
+
+      expect(store.currentTime).toBe(50200)
+      expect(store.loopActive).toBe(true)
+    })
+
+    it('should clear the loop after the set number of passes', () => {
+      store.setLoop(10000, 20000)
+      store.setLoopRepeat(2)
+
+      playTo(19.9)
+      playTo(20)
+      expect(store.currentTime).toBe(10000)
+
+      playTo(19.9)
+      playTo(20)
+      expect(store.currentTime).toBe(20000)
+      expect(store.loopActive).toBe(false)
+    })
+
+    it('should restart a loop that lasts until the end of the video', () => {
+      store.setLoop(90000, 100000)
+      Object.assign(mockMediaElement, { ended: true })
+
+      onEnded()
+
+      expect(store.playbackState).not.toBe('ended')
+      expect(mockMediaElement.currentTime).toBe(90)
+      expect(mockMediaElement.play).toHaveBeenCalled()
+    })
+
+    it('should end normally when the loop ends before the video', () => {
+      store.setLoop(10000, 20000)
+
+      onEnded()
+
+      expect(store.playbackState).toBe('ended')
+    })
+  })
 })
@@ -0,0 +1,120 @@
+import { useContentStore } from '@/stores/contentStore'
+import { useMediaControlsStore } from '@/stores/mediaControls'
+import { useNotesStore } from '@/stores/notes'
+import { createPinia, setActivePinia } from 'pinia'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+// Mock the storage utilities
+vi.mock('@/utils/storage', () => ({
+  loadJSON: vi.fn(),
+  saveJSON: vi.fn(),
+}))
+
+import { loadJSON, saveJSON } from '@/utils/storage'
+
+describe('NotesStore', () => {
+  let store: ReturnType<typeof useNotesStore>
+  let content: ReturnType<typeof useContentStore>
+  let media: ReturnType<typeof useMediaControlsStore>
+
+  // Switches to the lecture with the given page texts, one page per minute
+  const openLecture = (...texts: string[]) => {
+    content.pageModel = texts.map((text, index) => ({ timestamp: index * 60000, image: '', text }))
+  }
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    store = useNotesStore()
+    content = useContentStore()
+    media = useMediaControlsStore()
+    openLecture('Introduction', 'Fourier series', 'Fourier transform')
+    vi.clearAllMocks()
+  })
+
+  describe('add', () => {
+    it('should capture the current time and page', () => {
+      media.currentTime = 75500.4
+
+      const note = store.add('  **Convergence** of the series  ')
+
+      expect(note).toEqual({
+        id: expect.any(String),
+        time: 75500,
+        page: 2,
+        text: '**Convergence** of the series',
+        createdAt: expect.any(Number),
+        updatedAt: expect.any(Number),
+      })
+      expect(store.notes).toHaveLength(1)
+      expect(saveJSON).toHaveBeenLastCalledWith('app:notes', store.$state)
+    })
+
+    it('should add notes at a given time, sorted by time', () => {
+      store.add('third', 150000)
+      store.add('first', 20000)
+      store.add('second', 20000)
+
+      expect(store.notes.map(note => note.text)).toEqual(['first', 'second', 'third'])
+      expect(store.notes[2]?.page).toBe(3)
+    })
+
+    it('should ignore blank notes', () => {
+      expect(store.add('  \n ')).toBeUndefined()
+      expect(saveJSON).not.toHaveBeenCalled()
+    })
+
+    it('should store notes per lecture', () => {
+      store.add('fourier', 20000)
+      openLecture('Control')
+
+      expect(store.notes).toEqual([])
+    })
+  })
+
+  describe('update and remove', () => {
+    it('should update the text of a note', () => {
+      const { id } = store.add('draft', 20000)!
+
+      store.update(id, 'final ')
+
+      expect(store.notes[0]?.text).toBe('final')
+      expect(store.notes[0]?.time).toBe(20000)
+    })
+
+    it('should delete a note whose text is cleared', () => {
+      const { id } = store.add('draft', 20000)!
+
+      store.update(id, '  ')
+
+      expect(store.notes).toEqual([])
+      expect(store.lectures).toEqual({})
+    })
+
+    it('should remove a note', () => {
+      const { id } = store.add('first', 20000)!
+      store.add('second', 30000)
+
+      store.remove(id)
+
+      expect(store.notes.map(note => note.text)).toEqual(['second'])
+    })
+  })
+
+  describe('loadFromStorage', () => {
+    it('should load valid notes', () => {
+      const note = { id: 'a', time: 1000, page: 1, text: 'Start', createdAt: 0, updatedAt: 0 }
+      vi.mocked(loadJSON).mockReturnValue({ lectures: { [content.lectureKey]: [note] } })
+
+      expect(store.loadFromStorage()).toBe(true)
+      expect(store.notes).toEqual([note])
+    })
+
+    it('should ignore invalid notes', () => {
+      vi.mocked(loadJSON).mockReturnValue({ lectures: { a: [{ id: 'a', text: 'no time' }] } })
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      expect(store.loadFromStorage()).toBe(false)
+      expect(store.lectures).toEqual({})
+    })
+  })
+})
@@ -0,0 +1,213 @@
+import { useContentStore } from '@/stores/contentStore'
+import { useMediaControlsStore } from '@/stores/mediaControls'
+import { usePlaybackProgressStore } from '@/stores/playbackProgress'
+import { useSettingsStore } from '@/stores/settings'
+import { createPinia, setActivePinia } from 'pinia'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+// Mock the storage utilities
+vi.mock('@/utils/storage', () => ({
+  loadJSON: vi.fn(),
+  saveJSON: vi.fn(),
+}))
+
+import { loadJSON, saveJSON } from '@/utils/storage'
+
+describe('PlaybackProgressStore', () => {
+  let store: ReturnType<typeof usePlaybackProgressStore>
+  let content: ReturnType<typeof useContentStore>
+  let media: ReturnType<typeof useMediaControlsStore>
+
+  // Switches to the lecture with the given page texts, one page per minute
+  const openLecture = (...texts: string[]) => {
+    content.pageModel = texts.map((text, index) => ({ timestamp: index * 60000, image: '', text }))
+  }
+
+  // Saves progress for the current lecture at the given time
+  const watchUntil = (time: number) => {
+    media.currentTime = time
+    store.save()
+  }
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    store = usePlaybackProgressStore()
+    content = useContentStore()
+    media = useMediaControlsStore()
+    openLecture('Intro', 'Fourier series', 'Fourier transform')
+    vi.clearAllMocks()
+  })
+
+  describe('save', () => {
+    it('should save position, speed and page of the current lecture', () => {
+      media.playbackSpeed = 1.5
+      media.currentPage = 2
+      watchUntil(90500.7)
+
+      expect(store.currentProgress).toEqual({
+        time: 90500,
+        speed: 1.5,
+        page: 2,
+        completed: false,
+        updatedAt: expect.any(Number),
+      })
+      expect(saveJSON).toHaveBeenLastCalledWith('app:playback-progress', { lectures: store.lectures })
+    })
+
+    it('should keep the progress of other lectures', () => {
+      watchUntil(30000)
+      const first = content.lectureKey
+      openLecture('Control')
+      watchUntil(45000)
+
+      expect(store.lectures[first]?.time).toBe(30000)
+      expect(store.currentProgress?.time).toBe(45000)
+    })
+
+    it('should mark ended lectures as completed', () => {
+      media.playbackState = 'ended'
+      watchUntil(180000)
+
+      expect(store.currentProgress?.completed).toBe(true)
+    })
+
+    it('should mark lectures stopped just before the end as completed', () => {
+      media.totalTime = 180000
+      watchUntil(170000)
+
+      expect(store.currentProgress?.completed).toBe(true)
+
+      watchUntil(120000)
+      expect(store.currentProgress?.completed).toBe(false)
+    })
+
+    it('should keep at most 100 lectures, dropping the least recently watched', () => {
+      openLecture('first')
+      watchUntil(30000)
+      const first = content.lectureKey
+
+      for (let i = 0; i < 100; i++) {
+        openLecture(`lecture ${i}`)
+        watchUntil(30000)
+      }
+
+      expect(Object.keys(store.lectures)).toHaveLength(100)
+      expect(store.lectures[first]).toBeUndefined()
+    })
+  })
+
+  describe('offerResume', () => {
+    it('should offer the saved position and restore the speed', () => {
+      media.playbackSpeed = 1.25
+      watchUntil(2232000)
+      media.playbackSpeed = 1
+      media.currentTime = 0
+      const seekTo = vi.spyOn(media, 'seekTo')
+
+      expect(store.offerResume()).toBe(true)
+
+      expect(store.resumeOffer?.time).toBe(2232000)
+      expect(store.resumedAutomatically).toBe(false)
+      expect(media.playbackSpeed).toBe(1.25)
+      expect(seekTo).not.toHaveBeenCalled()
+    })
+
+    it('should not offer anything for unknown lectures', () => {
+      expect(store.offerResume()).toBe(false)
+      expect(store.resumeOffer).toBeNull()
+    })
+
+    it('should not offer positions near the start', () => {
+      watchUntil(5000)
+
+      expect(store.offerResume()).toBe(false)
+    })
+
+    it('should not offer completed lectures', () => {
+      media.playbackState = 'ended'
+      watchUntil(180000)
+
+      expect(store.offerResume()).toBe(false)
+      expect(store.resumeOffer).toBeNull()
+    })
+
+    it('should resume right away with the auto-resume setting', () => {
+      media.currentPage = 3
+      watchUntil(150000)
+      useSettingsStore().autoResume = true
+      const seekTo = vi.spyOn(media, 'seekTo')
+
+      expect(store.offerResume()).toBe(true)
+
+      expect(seekTo).toHaveBeenCalledWith(150000)
+      expect(media.currentPage).toBe(3)
+      expect(store.resumedAutomatically).toBe(true)
+      expect(store.resumeOffer).not.toBeNull()
+    })
+  })
+
+  describe('resume and startOver', () => {
+    beforeEach(() => {
+      media.currentPage = 2
+      watchUntil(90000)
+      media.currentTime = 0
+      media.currentPage = 1
+    })
+
+    it('should seek to the offered position on resume', () => {
+      store.offerResume()
+      const seekTo = vi.spyOn(media, 'seekTo')
+
+      store.resume()
+
+      expect(seekTo).toHaveBeenCalledWith(90000)
+      expect(media.currentPage).toBe(2)
+      expect(store.resumeOffer).toBeNull()
+    })
+
+    it('should only close the offer when starting over', () => {
+      store.offerResume()
+      const seekTo = vi.spyOn(media, 'seekTo')
+
+      store.startOver()
+
+      expect(seekTo).not.toHaveBeenCalled()
+      expect(store.resumeOffer).toBeNull()
+    })
+
+    it('should return to the start after an automatic resume', () => {
+      useSettingsStore().autoResume = true
+      store.offerResume()
+      const seekTo = vi.spyOn(media, 'seekTo')
+
+      store.startOver()
+
+      expect(seekTo).toHaveBeenCalledWith(0)
+      expect(media.currentPage).toBe(1)
+      expect(store.resumeOffer).toBeNull()
+    })
+  })
+
+  describe('loadFromStorage', () => {
+    it('should load valid progress', () => {
+      vi.mocked(loadJSON).mockReturnValue({ lectures: { a: { time: 1000 } } })
+
+      expect(store.loadFromStorage()).toBe(true)
+      expect(store.lectures).toEqual({ a: { time: 1000, speed: 1, page: 1, completed: false, updatedAt: 0 } })
+    })
+
+    it('should ignore invalid progress', () => {
+      vi.mocked(loadJSON).mockReturnValue({ lectures: { a: { time: -5 } } })
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      expect(store.loadFromStorage()).toBe(false)
+      expect(store.lectures).toEqual({})
+    })
+
+    it('should return false without stored progress', () => {
+      vi.mocked(loadJSON).mockReturnValue(null)
+
+      expect(store.loadFromStorage()).toBe(false)
+    })
+  })
+})
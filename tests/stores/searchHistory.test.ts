@@ -0,0 +1,112 @@
+import { useContentStore } from '@/stores/contentStore'
+import { useSearchHistoryStore } from '@/stores/searchHistory'
+import { createPinia, setActivePinia } from 'pinia'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+// Mock the storage utilities
+vi.mock('@/utils/storage', () => ({
+  loadJSON: vi.fn(),
+  saveJSON: vi.fn(),
+}))
+
+import { loadJSON, saveJSON } from '@/utils/storage'
+
+describe('SearchHistoryStore', () => {
+  let store: ReturnType<typeof useSearchHistoryStore>
+  let content: ReturnType<typeof useContentStore>
+
+  // Switches to the lecture with a single page of the given text
+  const openLecture = (text: string) => {
+    content.pageModel = [{ timestamp: 0, image: '', text }]
+  }
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    store = useSearchHistoryStore()
+    content = useContentStore()
+    openLecture('Signals')
+    vi.clearAllMocks()
+  })
+
+  describe('add', () => {
+    it('should record queries globally and per lecture, most recent first', () => {
+      store.add('fourier')
+      store.add(' laplace ')
+
+      expect(store.global).toEqual(['laplace', 'fourier'])
+      expect(store.lectures[content.lectureKey]).toEqual(['laplace', 'fourier'])
+      expect(saveJSON).toHaveBeenLastCalledWith('app:search-history', store.$state)
+    })
+
+    it('should move repeated queries to the front', () => {
+      store.add('fourier')
+      store.add('laplace')
+      store.add('fourier')
+
+      expect(store.global).toEqual(['fourier', 'laplace'])
+    })
+
+    it('should ignore blank queries', () => {
+      store.add('   ')
+
+      expect(store.global).toEqual([])
+      expect(saveJSON).not.toHaveBeenCalled()
+    })
+
+    it('should keep at most 20 queries', () => {
+      for (let i = 0; i < 25; i++) {
+        store.add(`query ${i}`)
+      }
+
+      expect(store.global).toHaveLength(20)
+      expect(store.global[0]).toBe('query 24')
+    })
+  })
+
+  describe('recentQueries', () => {
+    it('should list queries of the current lecture first', () => {
+      store.add('fourier')
+      openLecture('Control')
+      store.add('pid')
+      store.add('bode')
+      openLecture('Signals')
+
+      expect(store.recentQueries).toEqual(['fourier', 'bode', 'pid'])
+    })
+  })
+
+  describe('remove', () => {
+    it('should remove a query from all lists', () => {
+      store.add('fourier')
+      store.add('laplace')
+
+      store.remove('fourier')
+
+      expect(store.global).toEqual(['laplace'])
+      expect(store.lectures[content.lectureKey]).toEqual(['laplace'])
+    })
+  })
+
+  describe('loadFromStorage', () => {
+    it('should load a valid history', () => {
+      vi.mocked(loadJSON).mockReturnValue({ global: ['fourier'], lectures: { a: ['fourier'] } })
+
+      expect(store.loadFromStorage()).toBe(true)
+      expect(store.global).toEqual(['fourier'])
+      expect(store.lectures).toEqual({ a: ['fourier'] })
+    })
+
+    it('should ignore an invalid history', () => {
+      vi.mocked(loadJSON).mockReturnValue({ global: 'fourier' })
+
+      expect(store.loadFromStorage()).toBe(false)
+      expect(store.global).toEqual([])
+    })
+
+    it('should return false without stored history', () => {
+      vi.mocked(loadJSON).mockReturnValue(null)
+
+      expect(store.loadFromStorage()).toBe(false)
+    })
+  })
+})
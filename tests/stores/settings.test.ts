@@ -11,6 +11,20 @@ vi.mock('@/utils/storage', () => ({
 
 import { loadJSON, saveJSON } from '@/utils/storage'
 
+// Settings persisted by a fresh store
+const defaultSettings = {
+  theme: 'light',
+  sidebarPosition: 'left',
+  captionSize: 'medium',
+  captionBackgroundOpacity: 75,
+  captionPosition: 'bottom',
+  fuzzySearch: false,
+  updateLinkWhilePlaying: false,
+  autoResume: false,
+  showRecordedInk: true,
+  shortcuts: {},
+}
+
 describe('SettingsStore', () => {
   let store: ReturnType<typeof useSettingsStore>
 
@@ -91,6 +105,50 @@ describe('SettingsStore', () => {
       consoleSpy.mockRestore()
     })
 
+    it('should apply caption defaults to settings stored before captions existed', () => {
+      vi.mocked(loadJSON).mockReturnValue({ theme: 'dark', sidebarPosition: 'right' })
+
+      const result = store.loadFromStorage()
+
+      expect(result).toBe(true)
+      expect(store.captionSize).toBe('medium')
+      expect(store.captionBackgroundOpacity).toBe(75)
+      expect(store.captionPosition).toBe('bottom')
+    })
+
+    it('should load caption settings', () => {
+      vi.mocked(loadJSON).mockReturnValue({
+        theme: 'dark',
+        sidebarPosition: 'right',
+        captionSize: 'large',
+        captionBackgroundOpacity: 20,
+        captionPosition: 'top',
+      })
+
+      expect(store.loadFromStorage()).toBe(true)
+      expect(store.captionSize).toBe('large')
+      expect(store.captionBackgroundOpacity).toBe(20)
+      expect(store.captionPosition).toBe('top')
+    })
+
+    it('should reject out-of-range caption opacity', () => {
+      vi.mocked(loadJSON).mockReturnValue({
+        theme: 'dark',
+        sidebarPosition: 'right',
+        captionBackgroundOpacity: 150,
+      })
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      expect(store.loadFromStorage()).toBe(false)
+    })
+
+    it('should load the fuzzy search setting', () => {
+      vi.mocked(loadJSON).mockReturnValue({ theme: 'dark', sidebarPosition: 'right', fuzzySearch: true })
+
+      expect(store.loadFromStorage()).toBe(true)
+      expect(store.fuzzySearch).toBe(true)
+    })
+
     it('should handle partial valid settings', () => {
       const partialSettings = {
         theme: 'dark',
@@ -126,6 +184,7 @@ describe('SettingsStore', () => {
       store.persist()
 
       expect(saveJSON).toHaveBeenCalledWith('app:settings', {
+        ...defaultSettings,
         theme: 'dark',
         sidebarPosition: 'right',
       })
@@ -135,12 +194,56 @@ describe('SettingsStore', () => {
       store.persist()
 
       expect(saveJSON).toHaveBeenCalledWith('app:settings', {
+        ...defaultSettings,
         theme: 'light',
         sidebarPosition: 'left',
       })
     })
   })
 
+  describe('shortcuts', () => {
+    const ctrlJ = { key: 'j', ctrl: true, shift: false, alt: false, meta: false }
+
+    it('should assign and persist keys per shortcut', () => {
+      store.setShortcutKeys('seek-back-10', [ctrlJ])
+
+      expect(store.shortcuts).toEqual({ 'seek-back-10': [ctrlJ] })
+      expect(saveJSON).toHaveBeenCalledWith('app:settings', {
+        ...defaultSettings,
+        shortcuts: { 'seek-back-10': [ctrlJ] },
+      })
+    })
+
+    it('should reset a single shortcut or all of them', () => {
+      store.setShortcutKeys('seek-back-10', [ctrlJ])
+      store.setShortcutKeys('help', [])
+
+      store.resetShortcut('help')
+      expect(store.shortcuts).toEqual({ 'seek-back-10': [ctrlJ] })
+
+      store.resetShortcuts()
+      expect(store.shortcuts).toEqual({})
+    })
+
+    it('should load assigned keys', () => {
+      vi.mocked(loadJSON).mockReturnValue({
+        theme: 'light',
+        sidebarPosition: 'left',
+        shortcuts: { help: [{ key: 'h', ctrl: true }] },
+      })
+
+      expect(store.loadFromStorage()).toBe(true)
+      expect(store.shortcuts).toEqual({ help: [{ key: 'h', ctrl: true }] })
+    })
+
+    it('should reject keys without key value', () => {
+      vi.mocked(loadJSON).mockReturnValue({ theme: 'light', sidebarPosition: 'left', shortcuts: { help: [{ key: '' }] } })
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      expect(store.loadFromStorage()).toBe(false)
+    })
+  })
+
   describe('resetToDefaults', () => {
     it('should reset to default values and persist', () => {
       // Set non-default values
@@ -152,6 +255,7 @@ describe('SettingsStore', () => {
       expect(store.theme).toBe('light')
       expect(store.sidebarPosition).toBe('left')
       expect(saveJSON).toHaveBeenCalledWith('app:settings', {
+        ...defaultSettings,
         theme: 'light',
         sidebarPosition: 'left',
       })
@@ -217,6 +321,7 @@ describe('SettingsStore', () => {
       // Persist changes
       store.persist()
       expect(saveJSON).toHaveBeenCalledWith('app:settings', {
+        ...defaultSettings,
         theme: 'light',
         sidebarPosition: 'right',
       })
@@ -0,0 +1,79 @@
+import type { InkStroke } from '@/schemas/annotations'
+import { annotationsFileName, strokesToSvg } from '@/utils/annotationsExport'
+import { isNearStroke, strokePath } from '@/utils/ink'
+import { describe, expect, it } from 'vitest'
+
+const size = { width: 1000, height: 500 }
+
+const pen: InkStroke = {
+  id: 'a',
+  tool: 'pen',
+  color: '#e11d48',
+  width: 0.004,
+  points: [[0.1, 0.2], [0.3, 0.2]],
+  createdAt: 0,
+}
+
+const highlighter: InkStroke = {
+  id: 'b',
+  tool: 'highlighter',
+  color: '#facc15',
+  width: 0.02,
+  points: [[0.5, 0.5]],
+  createdAt: 0,
+}
+
+describe('ink', () => {
+  describe('strokePath', () => {
+    it('should scale the points to the frame', () => {
+      expect(strokePath(pen.points, size)).toBe('M 100 100 L 300 100')
+    })
+
+    it('should draw a single point as dot', () => {
+      expect(strokePath(highlighter.points, size)).toBe('M 500 250 L 500 250')
+    })
+  })
+
+  describe('isNearStroke', () => {
+    it('should detect points on or next to a stroke', () => {
+      expect(isNearStroke(pen, [0.2, 0.2], 0, size)).toBe(true)
+      expect(isNearStroke(pen, [0.2, 0.21], 4, size)).toBe(true)
+      expect(isNearStroke(highlighter, [0.51, 0.5], 0, size)).toBe(true)
+    })
+
+    it('should ignore points away from a stroke', () => {
+      expect(isNearStroke(pen, [0.2, 0.25], 4, size)).toBe(false)
+      expect(isNearStroke(pen, [0.35, 0.2], 4, size)).toBe(false)
+    })
+  })
+})
+
+describe('annotationsExport', () => {
+  describe('strokesToSvg', () => {
+    it('should write a path per stroke', () => {
+      expect(strokesToSvg([pen, highlighter], size)).toBe([
+        '<svg xmlns="http://www.w3.org/2000/svg" width="1000" height="500" viewBox="0 0 1000 500">',
+        '  <path d="M 100 100 L 300 100" fill="none" stroke="#e11d48" stroke-width="4" stroke-linecap="round" stroke-linejoin="round"/>',
+        '  <path d="M 500 250 L 500 250" fill="none" stroke="#facc15" stroke-width="20" stroke-linecap="round" stroke-linejoin="round" stroke-opacity="0.35"/>',
+        '</svg>',
+        '',
+      ].join('\n'))
+    })
+
+    it('should draw the strokes over the background image', () => {
+      const svg = strokesToSvg([pen], { ...size, background: 'slides/1.png?a=1&b="2"' })
+
+      expect(svg).toContain(
+        '<image href="slides/1.png?a=1&amp;b=&quot;2&quot;" width="1000" height="500" preserveAspectRatio="xMidYMid meet"/>',
+      )
+      expect(svg.indexOf('<image')).toBeLessThan(svg.indexOf('<path'))
+    })
+  })
+
+  describe('annotationsFileName', () => {
+    it('should name the file after the lecture and page', () => {
+      expect(annotationsFileName('Signals & Systems', 3)).toBe('signals-systems-page-3.svg')
+      expect(annotationsFileName(undefined, 1)).toBe('lecture-page-1.svg')
+    })
+  })
+})
@@ -0,0 +1,46 @@
+import { fuzzyScore, parseQuickActions } from '@/utils/commandPalette'
+import { describe, expect, it } from 'vitest'
+
+describe('commandPalette', () => {
+  describe('parseQuickActions', () => {
+    it('should read page numbers', () => {
+      expect(parseQuickActions('12')).toEqual([{ kind: 'page', page: 12 }])
+      expect(parseQuickActions('page 3')).toEqual([{ kind: 'page', page: 3 }])
+    })
+
+    it('should read times', () => {
+      expect(parseQuickActions('1:05')).toEqual([{ kind: 'time', time: 65000 }])
+      expect(parseQuickActions('t 1:02:03')).toEqual([{ kind: 'time', time: 3723000 }])
+      expect(parseQuickActions('90s')).toEqual([{ kind: 'time', time: 90000 }])
+      expect(parseQuickActions('1:75')).toEqual([])
+    })
+
+    it('should read percentages and speeds', () => {
+      expect(parseQuickActions('25%')).toEqual([{ kind: 'percent', fraction: 0.25 }])
+      expect(parseQuickActions('150%')).toEqual([])
+      expect(parseQuickActions('1.5x')).toEqual([{ kind: 'speed', speed: 1.5 }])
+      expect(parseQuickActions('speed 2')).toEqual([{ kind: 'speed', speed: 2 }])
+    })
+
+    it('should ignore other text', () => {
+      expect(parseQuickActions('bookmark')).toEqual([])
+    })
+  })
+
+  describe('fuzzyScore', () => {
+    it('should match characters in order', () => {
+      expect(fuzzyScore('nxpg', 'Next page')).not.toBeNull()
+      expect(fuzzyScore('gpn', 'Next page')).toBeNull()
+      expect(fuzzyScore('', 'Next page')).toBe(0)
+    })
+
+    it('should prefer consecutive characters and word starts', () => {
+      expect(fuzzyScore('mute', 'Mute/Unmute')!).toBeGreaterThan(fuzzyScore('mute', 'Seek to minute')!)
+      expect(fuzzyScore('np', 'Next page')!).toBeGreaterThan(fuzzyScore('np', 'Seek forward 5 seconds, no pause')!)
+    })
+
+    it('should ignore case and diacritics', () => {
+      expect(fuzzyScore('uber', 'Überblick')).not.toBeNull()
+    })
+  })
+})
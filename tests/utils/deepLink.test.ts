@@ -0,0 +1,67 @@
+import { buildDeepLink, parseDeepLink } from '@/utils/deepLink'
+import { describe, expect, it } from 'vitest'
+
+const BASE = 'https://example.org/lectures/signals.html'
+
+describe('deepLink', () => {
+  describe('parseDeepLink', () => {
+    it('returns an empty link for URLs without parameters', () => {
+      expect(parseDeepLink(BASE)).toEqual({})
+    })
+
+    it('parses time, page and query from the fragment', () => {
+      expect(parseDeepLink(`${BASE}#t=42:10&page=17&q=fourier`)).toEqual({
+        time: (42 * 60 + 10) * 1000,
+        page: 17,
+        query: 'fourier',
+      })
+    })
+
+    it('parses parameters from the query string', () => {
+      expect(parseDeepLink(`${BASE}?t=1:02:03&q=laplace%20transform`)).toEqual({
+        time: (3600 + 2 * 60 + 3) * 1000,
+        query: 'laplace transform',
+      })
+    })
+
+    it('prefers fragment parameters over query parameters', () => {
+      expect(parseDeepLink(`${BASE}?t=10&page=2#t=20`)).toEqual({ time: 20000, page: 2 })
+    })
+
+    it('accepts times in seconds', () => {
+      expect(parseDeepLink(`${BASE}#t=90`).time).toBe(90000)
+      expect(parseDeepLink(`${BASE}#t=90s`).time).toBe(90000)
+      expect(parseDeepLink(`${BASE}#t=2.5`).time).toBe(2500)
+    })
+
+    it('ignores invalid values', () => {
+      expect(parseDeepLink(`${BASE}#t=soon&page=0&q=%20`)).toEqual({})
+      expect(parseDeepLink(`${BASE}#t=1:75&page=-3`)).toEqual({})
+      expect(parseDeepLink(`${BASE}#page=2.5`)).toEqual({})
+    })
+  })
+
+  describe('buildDeepLink', () => {
+    it('adds the time as fragment', () => {
+      expect(buildDeepLink(BASE, { time: (42 * 60 + 10) * 1000 })).toBe(`${BASE}#t=42:10`)
+    })
+
+    it('encodes page and query', () => {
+      expect(buildDeepLink(BASE, { page: 3, query: 'z transform' })).toBe(`${BASE}#page=3&q=z%20transform`)
+    })
+
+    it('replaces existing deep link parameters and keeps others', () => {
+      const url = `${BASE}?lang=de&t=5#q=old&view=full`
+      expect(buildDeepLink(url, { time: 65000 })).toBe(`${BASE}?lang=de#view=full&t=1:05`)
+    })
+
+    it('removes the fragment for an empty link', () => {
+      expect(buildDeepLink(`${BASE}#t=1:00`, {})).toBe(BASE)
+    })
+
+    it('round-trips through parseDeepLink', () => {
+      const link = { time: 3723000, page: 12, query: '"impulse response" -discrete' }
+      expect(parseDeepLink(buildDeepLink(BASE, link))).toEqual(link)
+    })
+  })
+})
@@ -0,0 +1,43 @@
+import { formatKeyDef, formatShortcutForTooltip, formatShortcutWithKbd } from '@/utils/keyboardShortcuts'
+import { describe, expect, it } from 'vitest'
+
+describe('keyboardShortcuts', () => {
+  describe('formatKeyDef', () => {
+    it('should list the modifiers before the key', () => {
+      expect(formatKeyDef({ key: 'k', ctrl: true, shift: true })).toBe('Ctrl + Shift + K')
+      expect(formatKeyDef({ key: 'p', meta: true, alt: true })).toBe('Alt + ⌘ + P')
+    })
+
+    it('should label special keys like the default shortcuts', () => {
+      expect(formatKeyDef({ key: ' ' })).toBe('Space')
+      expect(formatKeyDef({ key: 'ArrowLeft', shift: true })).toBe('Shift + ←')
+      expect(formatKeyDef({ key: 'PageDown' })).toBe('PageDown')
+    })
+
+    it('should join the keys of a sequence', () => {
+      expect(formatKeyDef({ key: 'g', prefix: [{ key: 'g' }] })).toBe('G then G')
+      expect(formatKeyDef({ key: 'Enter', prefix: [{ key: 'g' }], digits: true })).toBe('G then N then Enter')
+    })
+  })
+
+  describe('formatShortcutForTooltip', () => {
+    it('should join alternative keys', () => {
+      expect(formatShortcutForTooltip({ keys: ['Space', 'K'], description: 'Play/Pause' })).toBe('Space or K')
+    })
+  })
+
+  describe('formatShortcutWithKbd', () => {
+    it('should wrap each key of a combination', () => {
+      expect(formatShortcutWithKbd({ keys: ['Ctrl + K', '<'], description: 'Focus search field' })).toBe(
+        '<kbd class="kbd kbd-sm border-b">Ctrl</kbd> + <kbd class="kbd kbd-sm border-b">K</kbd>'
+          + ' or <kbd class="kbd kbd-sm border-b">&lt;</kbd>',
+      )
+    })
+
+    it('should wrap each key of a sequence', () => {
+      expect(formatShortcutWithKbd({ keys: ['G then E'], description: 'Jump to last page' })).toBe(
+        '<kbd class="kbd kbd-sm border-b">G</kbd> then <kbd class="kbd kbd-sm border-b">E</kbd>',
+      )
+    })
+  })
+})
@@ -0,0 +1,64 @@
+import type { Note } from '@/schemas/notes'
+import { notesFileName, notesToJSON, notesToMarkdown } from '@/utils/notesExport'
+import { describe, expect, it } from 'vitest'
+
+const URL = 'https://example.org/lectures/signals.html'
+
+const notes: Note[] = [
+  { id: 'a', time: 75000, page: 2, text: '**Convergence** needs\n- continuity', createdAt: 0, updatedAt: 0 },
+  { id: 'b', time: 3723000, page: 14, text: 'Exam topic', createdAt: 0, updatedAt: 86400000 },
+]
+
+describe('notesExport', () => {
+  describe('notesToMarkdown', () => {
+    it('should write a section per note with a link to its time', () => {
+      expect(notesToMarkdown(notes, { title: 'Signals', url: URL })).toBe([
+        '# Notes: Signals',
+        '',
+        `## [1:15](${URL}#t=1:15) · Page 2`,
+        '',
+        '**Convergence** needs\n- continuity',
+        '',
+        `## [1:02:03](${URL}#t=1:02:03) · Page 14`,
+        '',
+        'Exam topic',
+        '',
+      ].join('\n'))
+    })
+
+    it('should use a generic heading without title', () => {
+      expect(notesToMarkdown([], { url: URL })).toBe('# Lecture notes\n')
+    })
+
+    it('should escape parentheses in links', () => {
+      const markdown = notesToMarkdown(notes.slice(0, 1), { url: 'https://example.org/signals(2025).html' })
+
+      expect(markdown).toContain('(https://example.org/signals%282025%29.html#t=1:15)')
+    })
+  })
+
+  describe('notesToJSON', () => {
+    it('should include times, links and text', () => {
+      const data = JSON.parse(notesToJSON(notes, { title: 'Signals', url: `${URL}#t=5:00` }))
+
+      expect(data.title).toBe('Signals')
+      expect(data.notes[1]).toEqual({
+        time: 3723000,
+        timestamp: '1:02:03',
+        page: 14,
+        link: `${URL}#t=1:02:03`,
+        text: 'Exam topic',
+        createdAt: '1970-01-01T00:00:00.000Z',
+        updatedAt: '1970-01-02T00:00:00.000Z',
+      })
+    })
+  })
+
+  describe('notesFileName', () => {
+    it('should derive the file name from the title', () => {
+      expect(notesFileName('Signals & Systems – Lecture 3', 'md')).toBe('signals-systems-lecture-3-notes.md')
+      expect(notesFileName('Übungen', 'json')).toBe('ubungen-notes.json')
+      expect(notesFileName(undefined, 'md')).toBe('lecture-notes.md')
+    })
+  })
+})
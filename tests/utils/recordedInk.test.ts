@@ -0,0 +1,57 @@
+import type { RecordedEvent } from '@/schemas/pageModel'
+import { FULL_PAGE, POINTER_LINGER, recordedInkAt } from '@/utils/recordedInk'
+import { describe, expect, it } from 'vitest'
+
+const stroke: RecordedEvent = {
+  type: 'stroke',
+  tool: 'pen',
+  color: '#0000ff',
+  width: 0.003,
+  points: [[0.1, 0.1, 1000], [0.2, 0.1, 1100], [0.3, 0.1, 1200]],
+}
+
+const pointer: RecordedEvent = {
+  type: 'pointer',
+  color: '#ff0000',
+  points: [[0.5, 0.5, 2000], [0.6, 0.5, 2500]],
+}
+
+describe('recordedInk', () => {
+  describe('recordedInkAt', () => {
+    it('should show nothing before the first event', () => {
+      expect(recordedInkAt([stroke, pointer], 500)).toEqual({ strokes: [], pointer: null, zoom: FULL_PAGE })
+    })
+
+    it('should grow strokes point by point', () => {
+      expect(recordedInkAt([stroke], 1150).strokes).toEqual([
+        { tool: 'pen', color: '#0000ff', width: 0.003, points: [[0.1, 0.1], [0.2, 0.1]] },
+      ])
+      expect(recordedInkAt([stroke], 5000).strokes[0]?.points).toHaveLength(3)
+    })
+
+    it('should follow the pointer and hide it after it stopped moving', () => {
+      expect(recordedInkAt([pointer], 2200).pointer).toEqual({ point: [0.5, 0.5], color: '#ff0000' })
+      expect(recordedInkAt([pointer], 2500 + POINTER_LINGER).pointer?.point).toEqual([0.6, 0.5])
+      expect(recordedInkAt([pointer], 2501 + POINTER_LINGER).pointer).toBeNull()
+    })
+
+    it('should apply the latest zoom', () => {
+      const events: RecordedEvent[] = [
+        { type: 'zoom', time: 1000, x: 0.5, y: 0.5, width: 0.5, height: 0.5 },
+        { type: 'zoom', time: 2000, ...FULL_PAGE },
+      ]
+
+      expect(recordedInkAt(events, 1500).zoom).toEqual({ x: 0.5, y: 0.5, width: 0.5, height: 0.5 })
+      expect(recordedInkAt(events, 2000).zoom).toEqual(FULL_PAGE)
+    })
+
+    it('should remove strokes drawn before a clear', () => {
+      const later: RecordedEvent = { ...stroke, points: [[0.4, 0.4, 4000]] }
+      const events: RecordedEvent[] = [stroke, { type: 'clear', time: 3000 }, later]
+
+      expect(recordedInkAt(events, 2000).strokes).toHaveLength(1)
+      expect(recordedInkAt(events, 3000).strokes).toEqual([])
+      expect(recordedInkAt(events, 4000).strokes.map(s => s.points)).toEqual([[[0.4, 0.4]]])
+    })
+  })
+})
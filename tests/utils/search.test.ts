@@ -0,0 +1,49 @@
+import { createSnippet, findPageIndexAt } from '@/utils/search'
+import { describe, expect, it } from 'vitest'
+
+describe('search', () => {
+  const pages = [
+    { timestamp: 0, text: 'Introduction to signals' },
+    { timestamp: 60000, text: 'Fourier series\nand signals' },
+    { timestamp: 120000, text: 'Summary' },
+  ]
+
+  describe('findPageIndexAt', () => {
+    it('should return the page shown at the given time', () => {
+      expect(findPageIndexAt(pages, 0)).toBe(0)
+      expect(findPageIndexAt(pages, 59999)).toBe(0)
+      expect(findPageIndexAt(pages, 60000)).toBe(1)
+      expect(findPageIndexAt(pages, 500000)).toBe(2)
+    })
+
+    it('should fall back to the first page', () => {
+      expect(findPageIndexAt([{ timestamp: 1000, text: '' }], 0)).toBe(0)
+      expect(findPageIndexAt([], 1000)).toBe(0)
+    })
+  })
+
+  describe('createSnippet', () => {
+    it('should return short texts completely', () => {
+      expect(createSnippet('Hello world', 6, 5)).toEqual({ before: 'Hello ', match: 'world', after: '' })
+    })
+
+    it('should cut long texts at word boundaries and add ellipses', () => {
+      const text = 'one two three four five six seven eight nine ten'
+      const start = text.indexOf('five')
+
+      expect(createSnippet(text, start, 4, 10)).toEqual({
+        before: '…four ',
+        match: 'five',
+        after: ' six seven…',
+      })
+    })
+
+    it('should collapse line breaks and whitespace', () => {
+      expect(createSnippet('Fourier series\n  and signals', 17, 3)).toEqual({
+        before: 'Fourier series ',
+        match: 'and',
+        after: ' signals',
+      })
+    })
+  })
+})
@@ -0,0 +1,169 @@
+import { buildSearchIndex, buildSearchIndexInWorker, querySearchIndex, suggestTerms, tokenize } from '@/utils/searchIndex'
+import { describe, expect, it } from 'vitest'
+
+describe('searchIndex', () => {
+  const pages = [
+    { timestamp: 0, text: 'Introduction to signals' },
+    { timestamp: 60000, text: 'Fourier series\nand signals' },
+    { timestamp: 120000, text: 'Summary: linear, time-invariant systems' },
+  ]
+  const cues = [
+    { start: 30000, end: 35000, text: 'Signals are everywhere' },
+    { start: 90000, end: 95000, text: 'Next, the summary' },
+  ]
+
+  describe('tokenize', () => {
+    it('should split text into normalized words with offsets', () => {
+      expect(tokenize('Hello, Wörld 42!')).toEqual([
+        { term: 'hello', start: 0, end: 5 },
+        { term: 'world', start: 7, end: 12 },
+        { term: '42', start: 13, end: 15 },
+      ])
+    })
+
+    it('should return no tokens for punctuation only', () => {
+      expect(tokenize(' -- ')).toEqual([])
+    })
+  })
+
+  describe('buildSearchIndex', () => {
+    it('should store documents in time order with positional postings', () => {
+      const index = buildSearchIndex(pages, cues)
+
+      expect(index.documents.map(d => [d.source, d.time, d.page])).toEqual([
+        ['slide', 0, 1],
+        ['transcript', 30000, 1],
+        ['slide', 60000, 2],
+        ['transcript', 90000, 2],
+        ['slide', 120000, 3],
+      ])
+      expect(index.terms.get('signals')).toEqual([
+        { doc: 0, position: 2 },
+        { doc: 1, position: 0 },
+        { doc: 2, position: 3 },
+      ])
+    })
+  })
+
+  describe('querySearchIndex', () => {
+    const index = buildSearchIndex(pages, cues)
+
+    it('should return nothing for blank queries', () => {
+      expect(querySearchIndex(index, '  ')).toEqual([])
+    })
+
+    it('should merge slide and transcript hits in time order', () => {
+      const results = querySearchIndex(index, 'SIGNALS')
+
+      expect(results.map(r => [r.source, r.time, r.page])).toEqual([
+        ['slide', 0, 1],
+        ['transcript', 30000, 1],
+        ['slide', 60000, 2],
+      ])
+      expect(results[0]!.snippet).toEqual({ before: 'Introduction to ', match: 'signals', after: '' })
+    })
+
+    it('should match single words anywhere within a term', () => {
+      const results = querySearchIndex(index, 'ignal')
+
+      expect(results).toHaveLength(3)
+      expect(results[1]!.snippet).toEqual({ before: 'S', match: 'ignal', after: 's are everywhere' })
+    })
+
+    it('should require all words to match', () => {
+      expect(querySearchIndex(index, 'signals fourier').map(r => r.page)).toEqual([2])
+      expect(querySearchIndex(index, 'signals summary')).toEqual([])
+    })
+
+    it('should match quoted phrases in order', () => {
+      const results = querySearchIndex(index, '"series and sig"')
+
+      expect(results.map(r => r.page)).toEqual([2])
+      expect(results[0]!.snippet).toEqual({ before: 'Fourier ', match: 'series and signals', after: '' })
+      expect(querySearchIndex(index, '"and series"')).toEqual([])
+    })
+
+    it('should treat words joined by punctuation as a phrase', () => {
+      expect(querySearchIndex(index, 'time-invariant').map(r => r.page)).toEqual([3])
+      expect(querySearchIndex(index, 'invariant-time')).toEqual([])
+    })
+
+    it('should exclude documents with negated terms', () => {
+      const results = querySearchIndex(index, 'signals -fourier -"are everywhere"')
+
+      expect(results.map(r => [r.source, r.page])).toEqual([['slide', 1]])
+    })
+
+    it('should return nothing for exclusions only', () => {
+      expect(querySearchIndex(index, '-signals')).toEqual([])
+    })
+
+    it('should restrict matches to the filtered pages and times', () => {
+      expect(querySearchIndex(index, 'signals page:2-3').map(r => [r.source, r.page])).toEqual([['slide', 2]])
+      expect(querySearchIndex(index, 'signals after:0:30 before:1:00').map(r => r.time)).toEqual([30000])
+    })
+
+    it('should ignore diacritics', () => {
+      const german = buildSearchIndex([{ timestamp: 0, text: 'Überblick über Größen' }], [])
+
+      expect(querySearchIndex(german, 'uberblick')[0]!.snippet.match).toBe('Überblick')
+      expect(querySearchIndex(german, 'GROSSEN')).toHaveLength(1)
+    })
+
+    it('should only tolerate typos in fuzzy mode', () => {
+      const lecture = buildSearchIndex([{ timestamp: 0, text: 'The algorithm terminates' }], [])
+
+      expect(querySearchIndex(lecture, 'algoritm')).toEqual([])
+      expect(querySearchIndex(lecture, 'algoritm', { fuzzy: true })[0]!.snippet.match).toBe('algorithm')
+      expect(querySearchIndex(lecture, 'thx', { fuzzy: true })).toEqual([])
+    })
+
+    it('should rank better matches first and keep time order for ties', () => {
+      const lecture = buildSearchIndex([
+        { timestamp: 0, text: 'Transformations' },
+        { timestamp: 1000, text: 'Transform' },
+        { timestamp: 2000, text: 'Transforn' },
+        { timestamp: 3000, text: 'Transform, transform' },
+      ], [])
+
+      const results = querySearchIndex(lecture, 'transform', { fuzzy: true })
+
+      expect(results.map(r => r.page)).toEqual([4, 2, 1, 3])
+      expect(results[0]!.score).toBeGreaterThan(results[1]!.score)
+    })
+  })
+
+  describe('suggestTerms', () => {
+    const lecture = buildSearchIndex([
+      { timestamp: 0, text: 'Überblick: Signale' },
+      { timestamp: 1000, text: 'Signalverarbeitung und Signale' },
+      { timestamp: 2000, text: 'Signalflussgraph' },
+    ], [{ start: 0, end: 1000, text: 'Signalgenerator' }])
+
+    it('should suggest slide words by the number of slides they occur on', () => {
+      expect(suggestTerms(lecture, 'sig')).toEqual(['Signale', 'Signalflussgraph', 'Signalverarbeitung'])
+    })
+
+    it('should keep the spelling from the slides', () => {
+      expect(suggestTerms(lecture, 'uber')).toEqual(['Überblick'])
+    })
+
+    it('should not suggest the prefix itself or transcript words', () => {
+      expect(suggestTerms(lecture, 'signale')).toEqual([])
+      expect(suggestTerms(lecture, 'signalg')).toEqual([])
+    })
+
+    it('should respect the limit', () => {
+      expect(suggestTerms(lecture, 'sig', 1)).toEqual(['Signale'])
+      expect(suggestTerms(lecture, ' ')).toEqual([])
+    })
+  })
+
+  describe('buildSearchIndexInWorker', () => {
+    it('should build on the calling thread without worker support', async () => {
+      const index = await buildSearchIndexInWorker(pages, cues)
+
+      expect(index).toEqual(buildSearchIndex(pages, cues))
+    })
+  })
+})
@@ -0,0 +1,109 @@
+import { editDistance, matchesFilters, maxEditDistance, normalizeText, parseQuery } from '@/utils/searchQuery'
+import { describe, expect, it } from 'vitest'
+
+describe('searchQuery', () => {
+  describe('normalizeText', () => {
+    it('should remove diacritics and fold case', () => {
+      expect(normalizeText('Überblick')).toBe('uberblick')
+      expect(normalizeText('Café Crème')).toBe('cafe creme')
+    })
+
+    it('should handle decomposed input and sharp s', () => {
+      expect(normalizeText('Übergröße')).toBe('ubergrosse')
+    })
+  })
+
+  describe('parseQuery', () => {
+    it('should split words into separate clauses', () => {
+      expect(parseQuery('Fourier  Transformation')).toEqual({
+        include: [['fourier'], ['transformation']],
+        exclude: [],
+        filters: {},
+      })
+    })
+
+    it('should keep quoted phrases together', () => {
+      expect(parseQuery('"linear systems" signal')).toEqual({
+        include: [['linear', 'systems'], ['signal']],
+        exclude: [],
+        filters: {},
+      })
+    })
+
+    it('should parse excluded words and phrases', () => {
+      expect(parseQuery('signal -noise -"white light"')).toEqual({
+        include: [['signal']],
+        exclude: [['noise'], ['white', 'light']],
+        filters: {},
+      })
+    })
+
+    it('should treat compound words as phrases', () => {
+      expect(parseQuery('time-invariant').include).toEqual([['time', 'invariant']])
+    })
+
+    it('should accept an unterminated quote', () => {
+      expect(parseQuery('"fast fourier').include).toEqual([['fast', 'fourier']])
+    })
+
+    it('should drop parts without words', () => {
+      expect(parseQuery('- "" ?!')).toEqual({ include: [], exclude: [], filters: {} })
+    })
+  })
+
+  describe('filters', () => {
+    it('should parse page ranges and single pages', () => {
+      expect(parseQuery('fourier page:10-25').filters).toEqual({ fromPage: 10, toPage: 25 })
+      expect(parseQuery('fourier page:7').filters).toEqual({ fromPage: 7, toPage: 7 })
+      expect(parseQuery('fourier page:25-10').filters).toEqual({ fromPage: 10, toPage: 25 })
+    })
+
+    it('should parse time ranges', () => {
+      expect(parseQuery('after:30:00 before:1:05:00 fourier')).toEqual({
+        include: [['fourier']],
+        exclude: [],
+        filters: { after: 1800000, before: 3900000 },
+      })
+    })
+
+    it('should search invalid filters as text', () => {
+      const parsed = parseQuery('after:soon page:x')
+
+      expect(parsed.filters).toEqual({})
+      expect(parsed.include).toEqual([['after', 'soon'], ['page', 'x']])
+    })
+
+    it('should check pages and times against the filters', () => {
+      const filters = { fromPage: 2, toPage: 3, after: 1000, before: 5000 }
+
+      expect(matchesFilters(filters, 2, 1000)).toBe(true)
+      expect(matchesFilters(filters, 1, 2000)).toBe(false)
+      expect(matchesFilters(filters, 4, 2000)).toBe(false)
+      expect(matchesFilters(filters, 3, 999)).toBe(false)
+      expect(matchesFilters(filters, 3, 5000)).toBe(false)
+      expect(matchesFilters({}, 0, 0)).toBe(true)
+    })
+  })
+
+  describe('maxEditDistance', () => {
+    it('should allow more typos in longer words', () => {
+      expect(maxEditDistance('fft')).toBe(0)
+      expect(maxEditDistance('wave')).toBe(1)
+      expect(maxEditDistance('algoritm')).toBe(2)
+    })
+  })
+
+  describe('editDistance', () => {
+    it('should count insertions, deletions and substitutions', () => {
+      expect(editDistance('algoritm', 'algorithm', 2)).toBe(1)
+      expect(editDistance('signal', 'sigmal', 2)).toBe(1)
+      expect(editDistance('kitten', 'sitting', 3)).toBe(3)
+      expect(editDistance('same', 'same', 1)).toBe(0)
+    })
+
+    it('should stop at the limit', () => {
+      expect(editDistance('kitten', 'sitting', 1)).toBe(2)
+      expect(editDistance('a', 'abcdef', 2)).toBe(3)
+    })
+  })
+})
@@ -0,0 +1,161 @@
+import { fetchWebVTT, findActiveCues, findCueIndexAt, parseTimestamp, parseWebVTT } from '@/utils/webvtt'
+import { describe, expect, it, vi } from 'vitest'
+
+describe('webvtt', () => {
+  describe('parseTimestamp', () => {
+    it('should parse hours, minutes and seconds', () => {
+      expect(parseTimestamp('01:02:03.456')).toBe(3723456)
+    })
+
+    it('should parse timestamps without hours', () => {
+      expect(parseTimestamp('02:03.500')).toBe(123500)
+    })
+
+    it('should accept a comma as decimal separator', () => {
+      expect(parseTimestamp('00:00:01,250')).toBe(1250)
+    })
+
+    it('should return NaN for invalid input', () => {
+      expect(parseTimestamp('abc')).toBeNaN()
+      expect(parseTimestamp('1:2:3:4')).toBeNaN()
+    })
+  })
+
+  describe('parseWebVTT', () => {
+    it('should parse cues with and without identifiers', () => {
+      const cues = parseWebVTT([
+        'WEBVTT',
+        '',
+        '1',
+        '00:00:01.000 --> 00:00:04.000',
+        'Hello world',
+        '',
+        '00:00:05.000 --> 00:00:07.500 line:90% align:center',
+        'Second cue',
+        'with two lines',
+      ].join('\n'))
+
+      expect(cues).toEqual([
+        { start: 1000, end: 4000, text: 'Hello world' },
+        { start: 5000, end: 7500, text: 'Second cue\nwith two lines' },
+      ])
+    })
+
+    it('should skip NOTE, STYLE and REGION blocks', () => {
+      const cues = parseWebVTT([
+        'WEBVTT - Lecture 3',
+        '',
+        'NOTE This is a comment',
+        '',
+        'STYLE',
+        '::cue { color: red }',
+        '',
+        'REGION',
+        'id:speaker width:40%',
+        '',
+        '00:01.000 --> 00:02.000',
+        'Only cue',
+      ].join('\n'))
+
+      expect(cues).toEqual([{ start: 1000, end: 2000, text: 'Only cue' }])
+    })
+
+    it('should strip markup and decode entities', () => {
+      const cues = parseWebVTT([
+        'WEBVTT',
+        '',
+        '00:01.000 --> 00:02.000',
+        '<v Prof. Doe><i>Fourier</i> &amp; <c.yellow>Laplace</c> &lt;3</v>',
+      ].join('\n'))
+
+      expect(cues[0]?.text).toBe('Fourier & Laplace <3')
+    })
+
+    it('should handle Windows line endings and a byte order mark', () => {
+      const cues = parseWebVTT('\uFEFFWEBVTT\r\n\r\n00:01.000 --> 00:02.000\r\nText\r\n')
+
+      expect(cues).toEqual([{ start: 1000, end: 2000, text: 'Text' }])
+    })
+
+    it('should sort cues by start time and drop invalid ones', () => {
+      const cues = parseWebVTT([
+        'WEBVTT',
+        '',
+        '00:05.000 --> 00:06.000',
+        'Later',
+        '',
+        '00:04.000 --> 00:03.000',
+        'Ends before it starts',
+        '',
+        '00:01.000 --> 00:02.000',
+        'Earlier',
+      ].join('\n'))
+
+      expect(cues.map(c => c.text)).toEqual(['Earlier', 'Later'])
+    })
+
+    it('should reject input without the WEBVTT signature', () => {
+      expect(() => parseWebVTT('00:01.000 --> 00:02.000\nText')).toThrow('Missing WEBVTT signature')
+    })
+  })
+
+  describe('findActiveCues', () => {
+    const cues = [
+      { start: 0, end: 2000, text: 'a' },
+      { start: 1000, end: 3000, text: 'b' },
+      { start: 4000, end: 5000, text: 'c' },
+    ]
+
+    it('should return overlapping cues', () => {
+      expect(findActiveCues(cues, 1500).map(c => c.text)).toEqual(['a', 'b'])
+    })
+
+    it('should treat the end time as exclusive', () => {
+      expect(findActiveCues(cues, 2000).map(c => c.text)).toEqual(['b'])
+    })
+
+    it('should return nothing between cues', () => {
+      expect(findActiveCues(cues, 3500)).toEqual([])
+    })
+  })
+
+  describe('findCueIndexAt', () => {
+    const cues = [
+      { start: 1000, end: 2000, text: 'a' },
+      { start: 3000, end: 4000, text: 'b' },
+      { start: 5000, end: 6000, text: 'c' },
+    ]
+
+    it('should return -1 before the first cue', () => {
+      expect(findCueIndexAt(cues, 500)).toBe(-1)
+      expect(findCueIndexAt([], 500)).toBe(-1)
+    })
+
+    it('should return the most recently started cue', () => {
+      expect(findCueIndexAt(cues, 1000)).toBe(0)
+      expect(findCueIndexAt(cues, 2500)).toBe(0)
+      expect(findCueIndexAt(cues, 3000)).toBe(1)
+      expect(findCueIndexAt(cues, 9000)).toBe(2)
+    })
+  })
+
+  describe('fetchWebVTT', () => {
+    it('should fetch and parse a sidecar file', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        text: () => Promise.resolve('WEBVTT\n\n00:01.000 --> 00:02.000\nHi'),
+      })
+
+      await expect(fetchWebVTT('/captions.de.vtt')).resolves.toEqual([
+        { start: 1000, end: 2000, text: 'Hi' },
+      ])
+      expect(fetch).toHaveBeenCalledWith('/captions.de.vtt')
+    })
+
+    it('should reject failed requests', async () => {
+      global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' })
+
+      await expect(fetchWebVTT('/missing.vtt')).rejects.toThrow('404')
+    })
+  })
+})